@@ -19,27 +19,188 @@ CREATE TABLE IF NOT EXISTS products (
     price DECIMAL(10,2) NOT NULL,
     category VARCHAR(100),
     stock INT DEFAULT 0,
+    version INT NOT NULL DEFAULT 1,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    deleted_at TIMESTAMP NULL DEFAULT NULL,
 
     INDEX idx_category (category),
     INDEX idx_price (price),
+    INDEX idx_stock (stock),
     INDEX idx_created_at (created_at),
     INDEX idx_updated_at (updated_at),
+    INDEX idx_deleted_at (deleted_at),
     INDEX idx_cursor (created_at, id),
-    INDEX idx_category_cursor (category, created_at, id)
+    INDEX idx_updated_cursor (updated_at, id),
+    INDEX idx_price_cursor (price, id),
+    INDEX idx_name_cursor (name, id),
+    INDEX idx_category_cursor (category, created_at, id),
+    FULLTEXT INDEX ft_name_description (name, description)
 ) ENGINE=InnoDB;
 
 -- ===============================
--- WEBHOOK IDEMPOTENCY TABLE
+-- PRODUCT IMPORT JOBS
+-- ===============================
+CREATE TABLE IF NOT EXISTS product_imports (
+    id CHAR(36) PRIMARY KEY,
+    format VARCHAR(10) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    total_rows INT NOT NULL DEFAULT 0,
+    accepted_rows INT NOT NULL DEFAULT 0,
+    rejected_rows INT NOT NULL DEFAULT 0,
+    errors JSON,
+    failure_reason TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    started_at TIMESTAMP NULL DEFAULT NULL,
+    completed_at TIMESTAMP NULL DEFAULT NULL,
+
+    INDEX idx_status_created (status, created_at)
+) ENGINE=InnoDB;
+
+-- ===============================
+-- PRODUCT AUDIT TRAIL
+-- ===============================
+CREATE TABLE IF NOT EXISTS product_audit (
+    id BIGINT AUTO_INCREMENT PRIMARY KEY,
+    product_id CHAR(36) NOT NULL,
+    action VARCHAR(20) NOT NULL,
+    before_state JSON,
+    after_state JSON,
+    actor VARCHAR(255) NOT NULL,
+    request_id VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    INDEX idx_product_history (product_id, created_at, id),
+    INDEX idx_request_id (request_id)
+) ENGINE=InnoDB;
+
+-- ===============================
+-- PRODUCT PRICE HISTORY
+-- ===============================
+CREATE TABLE IF NOT EXISTS product_price_history (
+    id BIGINT AUTO_INCREMENT PRIMARY KEY,
+    product_id CHAR(36) NOT NULL,
+    price DECIMAL(10,2) NOT NULL,
+    previous_price DECIMAL(10,2) NULL,
+    request_id VARCHAR(100) NOT NULL,
+    changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    INDEX idx_product_changed (product_id, changed_at, id)
+) ENGINE=InnoDB;
+
+-- ===============================
+-- INVENTORY RESERVATIONS
+-- ===============================
+CREATE TABLE IF NOT EXISTS product_reservations (
+    id CHAR(36) PRIMARY KEY,
+    product_id CHAR(36) NOT NULL,
+    quantity INT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'active',
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    INDEX idx_product_status (product_id, status),
+    INDEX idx_status_expires (status, expires_at)
+) ENGINE=InnoDB;
+
+-- ===============================
+-- TRANSACTIONAL OUTBOX
+-- ===============================
+CREATE TABLE IF NOT EXISTS outbox (
+    id BIGINT AUTO_INCREMENT PRIMARY KEY,
+    event_id CHAR(36) NOT NULL,
+    aggregate_type VARCHAR(50) NOT NULL,
+    aggregate_id CHAR(36) NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    payload JSON NOT NULL,
+    attempts INT NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    dispatched_at TIMESTAMP NULL DEFAULT NULL,
+
+    UNIQUE KEY uq_event_id (event_id),
+    INDEX idx_dispatched (dispatched_at, id)
+) ENGINE=InnoDB;
+
+-- ===============================
+-- INCOMING WEBHOOK EVENTS
+-- (uq_source_event is the source of truth for idempotency)
 -- ===============================
 CREATE TABLE IF NOT EXISTS webhook_events (
     id BIGINT AUTO_INCREMENT PRIMARY KEY,
+    source VARCHAR(50) NOT NULL DEFAULT 'default',
     event_id VARCHAR(255) NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
     payload JSON,
-    processed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    status VARCHAR(20) NOT NULL DEFAULT 'received',
+    attempts INT NOT NULL DEFAULT 0,
+    last_error TEXT NULL,
+    received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    processed_at TIMESTAMP NULL DEFAULT NULL,
+
+    UNIQUE KEY uq_source_event (source, event_id),
+    INDEX idx_status_received (status, received_at),
+    INDEX idx_status_updated (status, updated_at),
+    INDEX idx_type_received (event_type, received_at)
+) ENGINE=InnoDB;
+
+-- ===============================
+-- OUTBOUND WEBHOOK SUBSCRIPTIONS
+-- ===============================
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+    id CHAR(36) PRIMARY KEY,
+    url VARCHAR(2048) NOT NULL,
+    event_types JSON NOT NULL,
+    secret VARCHAR(255) NOT NULL,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    INDEX idx_active (active)
+) ENGINE=InnoDB;
+
+-- ===============================
+-- OUTBOUND WEBHOOK DELIVERIES
+-- (a row stays pending until it is delivered or given up on; claims are
+-- leased through next_attempt_at, so a crashed worker's rows come due again)
+-- ===============================
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id BIGINT AUTO_INCREMENT PRIMARY KEY,
+    event_id CHAR(36) NOT NULL,
+    target_kind VARCHAR(20) NOT NULL,
+    subscription_id CHAR(36) NULL,
+    target_key VARCHAR(36) AS (COALESCE(subscription_id, target_kind)) STORED,
+    event JSON NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempts INT NOT NULL DEFAULT 0,
+    last_error TEXT NULL,
+    next_attempt_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+    UNIQUE KEY uq_event_target (event_id, target_key),
+    INDEX idx_status_due (status, next_attempt_at, id),
+    INDEX idx_status_updated (status, updated_at)
+) ENGINE=InnoDB;
+
+-- ===============================
+-- OUTBOUND WEBHOOK DEAD LETTERS
+-- ===============================
+CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+    id BIGINT AUTO_INCREMENT PRIMARY KEY,
+    subscription_id CHAR(36) NOT NULL,
+    event_id CHAR(36) NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    payload JSON NOT NULL,
+    attempts INT NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    replayed_at TIMESTAMP NULL DEFAULT NULL,
 
-    UNIQUE KEY uq_event_id (event_id)
+    INDEX idx_subscription (subscription_id, id),
+    INDEX idx_replayed (replayed_at, id)
 ) ENGINE=InnoDB;
 
 -- ===============================
@@ -19,6 +19,8 @@ import compression from 'compression';
 import { config } from './config';
 import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
+import { captureRawBody } from './middleware/rawBody';
+import { requestContext } from './middleware/requestContext';
 import { requestLogger } from './middleware/requestLogger';
 import { initDatabase } from './infrastructure/database';
 import { initRedis } from './infrastructure/redis';
@@ -69,9 +71,10 @@ export class App {
    * 
    * Middleware order is critical:
    * 1. Security (helmet, cors) - applied first
-   * 2. Body parsing - before route handlers
+   * 2. Body parsing - before route handlers (raw body kept for webhooks)
    * 3. Compression - after parsing
-   * 4. Logging - tracks all requests
+   * 4. Request context - request id used by logs and the audit trail
+   * 5. Logging - tracks all requests
    * 
    * @private
    */
@@ -82,6 +85,13 @@ export class App {
     // CORS: Allow cross-origin requests (configure domains in production)
     this.app.use(cors());
     
+    // Webhooks are verified against the exact bytes received - keep the raw
+    // body there (the general parser below skips requests already parsed)
+    this.app.use(
+      `/api/${config.server.apiVersion}/webhooks`,
+      express.json({ limit: REQUEST_SIZE_LIMIT, verify: captureRawBody })
+    );
+
     // Body parsers: Support JSON and URL-encoded payloads
     this.app.use(express.json({ limit: REQUEST_SIZE_LIMIT }));
     this.app.use(express.urlencoded({ 
@@ -92,6 +102,9 @@ export class App {
     // Compression: Reduce response size for better performance
     this.app.use(compression());
     
+    // Request context: Assign a request id before anything logs
+    this.app.use(requestContext);
+
     // Request logging: Track all incoming requests
     this.app.use(requestLogger);
   }
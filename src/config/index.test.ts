@@ -0,0 +1,108 @@
+import type { config as Config } from './index';
+
+/**
+ * Loads a fresh copy of the config with extra environment variables set.
+ */
+const loadConfig = (env: Record<string, string>): typeof Config => {
+  const saved = { ...process.env };
+  Object.assign(process.env, env);
+
+  try {
+    let loaded: typeof Config | undefined;
+    jest.isolateModules(() => {
+      loaded = jest.requireActual<{ config: typeof Config }>('./index').config;
+    });
+    return loaded as typeof Config;
+  } finally {
+    process.env = saved;
+  }
+};
+
+describe('config', () => {
+  describe('LOW_STOCK_CATEGORY_THRESHOLDS', () => {
+    const thresholds = (value: string) =>
+      loadConfig({ LOW_STOCK_CATEGORY_THRESHOLDS: value }).lowStock.categoryThresholds;
+
+    it('parses name:number pairs, trimming names', () => {
+      expect(thresholds(' electronics : 20 ,furniture:5')).toEqual(
+        new Map([
+          ['electronics', 20],
+          ['furniture', 5],
+        ])
+      );
+    });
+
+    it('splits on the last colon so names may contain one', () => {
+      expect(thresholds('outdoor:garden:3')).toEqual(new Map([['outdoor:garden', 3]]));
+    });
+
+    it('ignores malformed and below-minimum entries', () => {
+      expect(thresholds('electronics,:5,toys:x,books:-1,,garden:0')).toEqual(new Map([['garden', 0]]));
+    });
+
+    it('keeps names that collide with Object.prototype members as plain entries', () => {
+      const parsed = thresholds('constructor:7');
+
+      expect(parsed.get('constructor')).toBe(7);
+      expect(parsed.get('toString')).toBeUndefined();
+    });
+
+    it('is empty when unset', () => {
+      expect(thresholds('')).toEqual(new Map());
+    });
+  });
+
+  describe('webhook sources', () => {
+    const sources = (env: Record<string, string>) => loadConfig(env).webhook.sources;
+
+    it('always has the default source, read from WEBHOOK_*', () => {
+      expect(sources({ WEBHOOK_SECRET: 'current', WEBHOOK_SECRET_PREVIOUS: 'old' }).get('default')).toEqual({
+        secrets: ['current', 'old'],
+        signatureHeader: 'x-webhook-signature',
+        algorithm: 'sha256',
+        encoding: 'hex',
+        format: 'timestamped',
+      });
+    });
+
+    it('reads each named source from WEBHOOK_SOURCE_<NAME>_*', () => {
+      const parsed = sources({
+        WEBHOOK_SOURCES: ' Acme , globex-eu',
+        WEBHOOK_SOURCE_ACME_SECRET: 'acme-secret',
+        WEBHOOK_SOURCE_ACME_SIGNATURE_HEADER: 'X-Acme-Signature',
+        WEBHOOK_SOURCE_ACME_ALGORITHM: 'sha512',
+        WEBHOOK_SOURCE_ACME_ENCODING: 'base64',
+        WEBHOOK_SOURCE_ACME_FORMAT: 'plain',
+        WEBHOOK_SOURCE_GLOBEX_EU_SECRET: 'globex-secret',
+      });
+
+      expect([...parsed.keys()]).toEqual(['default', 'acme', 'globex-eu']);
+      expect(parsed.get('acme')).toEqual({
+        secrets: ['acme-secret'],
+        signatureHeader: 'x-acme-signature',
+        algorithm: 'sha512',
+        encoding: 'base64',
+        format: 'plain',
+      });
+      expect(parsed.get('globex-eu')?.secrets).toEqual(['globex-secret']);
+    });
+
+    it('falls back to the defaults for unsupported settings', () => {
+      const acme = sources({
+        WEBHOOK_SOURCES: 'acme',
+        WEBHOOK_SOURCE_ACME_ALGORITHM: 'md5',
+        WEBHOOK_SOURCE_ACME_ENCODING: 'binary',
+        WEBHOOK_SOURCE_ACME_FORMAT: 'jwt',
+      }).get('acme');
+
+      expect(acme).toMatchObject({ secrets: [], algorithm: 'sha256', encoding: 'hex', format: 'timestamped' });
+    });
+
+    it('never resolves a source name to an Object.prototype member', () => {
+      const parsed = sources({ WEBHOOK_SOURCES: 'acme' });
+
+      expect(parsed.get('constructor')).toBeUndefined();
+      expect(parsed.has('__proto__')).toBe(false);
+    });
+  });
+});
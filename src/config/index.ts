@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import { WebhookSourceConfig } from '../types/webhook.types';
 
 /**
  * Load and validate environment variables on module initialization.
@@ -34,8 +35,99 @@ class ConfigParser {
   public static getString(key: string, defaultValue: string): string {
     return process.env[key] || defaultValue;
   }
+
+  /**
+   * Parse a `name:number` list (e.g. "electronics:20,furniture:5").
+   * @param key - Environment variable name
+   * @param min - Minimum allowed value (entries below it are ignored)
+   * @returns Map of names to integers (malformed entries are ignored)
+   */
+  public static parseIntMap(key: string, min?: number): Map<string, number> {
+    // A Map, so names from data never resolve to Object.prototype members
+    const entries = new Map<string, number>();
+
+    for (const pair of (process.env[key] || '').split(',')) {
+      const separator = pair.lastIndexOf(':');
+      const name = pair.slice(0, separator).trim();
+      const value = parseInt(pair.slice(separator + 1), 10);
+
+      if (separator > 0 && name && !isNaN(value) && (min === undefined || value >= min)) {
+        entries.set(name, value);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Parse a comma-separated list (e.g. "acme,globex").
+   * @param key - Environment variable name
+   * @returns Trimmed, non-empty entries
+   */
+  public static getList(key: string): string[] {
+    return (process.env[key] || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry.length > 0);
+  }
+
+  /**
+   * Get one of a fixed set of strings from environment with fallback.
+   * @param key - Environment variable name
+   * @param allowed - Accepted values
+   * @param defaultValue - Fallback value if unset or not allowed
+   * @returns Environment value or default
+   */
+  public static getEnum<T extends string>(
+    key: string,
+    allowed: ReadonlyArray<T>,
+    defaultValue: T
+  ): T {
+    const value = process.env[key] as T | undefined;
+    return value && allowed.includes(value) ? value : defaultValue;
+  }
 }
 
+/**
+ * Read the signature settings of one incoming webhook source.
+ *
+ * Variables are named `<prefix>SECRET`, `<prefix>SECRET_PREVIOUS`,
+ * `<prefix>SIGNATURE_HEADER`, `<prefix>ALGORITHM`, `<prefix>ENCODING`
+ * and `<prefix>FORMAT`.
+ */
+const parseWebhookSource = (prefix: string): WebhookSourceConfig => ({
+  // Current secret first; the previous one stays valid while senders rotate
+  secrets: [
+    ConfigParser.getString(`${prefix}SECRET`, ''),
+    ConfigParser.getString(`${prefix}SECRET_PREVIOUS`, ''),
+  ].filter((secret) => secret.length > 0),
+  signatureHeader: ConfigParser.getString(`${prefix}SIGNATURE_HEADER`, 'X-Webhook-Signature').toLowerCase(),
+  algorithm: ConfigParser.getEnum(`${prefix}ALGORITHM`, ['sha1', 'sha256', 'sha512'], 'sha256'),
+  encoding: ConfigParser.getEnum(`${prefix}ENCODING`, ['hex', 'base64'], 'hex'),
+  format: ConfigParser.getEnum(`${prefix}FORMAT`, ['timestamped', 'plain'], 'timestamped'),
+});
+
+/**
+ * Read every incoming webhook source: `default` (WEBHOOK_*, served on
+ * /webhooks/events) plus one per name in WEBHOOK_SOURCES
+ * (WEBHOOK_SOURCE_<NAME>_*, served on /webhooks/<name>/events).
+ */
+const parseWebhookSources = (): Map<string, WebhookSourceConfig> => {
+  // A Map, so names from the URL never resolve to Object.prototype members
+  const sources = new Map<string, WebhookSourceConfig>([
+    ['default', parseWebhookSource('WEBHOOK_')],
+  ]);
+
+  for (const name of ConfigParser.getList('WEBHOOK_SOURCES')) {
+    sources.set(
+      name.toLowerCase(),
+      parseWebhookSource(`WEBHOOK_SOURCE_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`)
+    );
+  }
+
+  return sources;
+};
+
 /**
  * Application configuration object.
  * Centralizes all environment-based settings with type safety and defaults.
@@ -170,13 +262,142 @@ export const config = {
     resetTimeout: ConfigParser.parseInt('CIRCUIT_BREAKER_RESET_TIMEOUT', 30000, 1000),
   },
   
+  /** Admin API access configuration */
+  admin: {
+    /** API key expected in the X-Admin-Key header (admin endpoints are disabled when empty) */
+    apiKey: ConfigParser.getString('ADMIN_API_KEY', ''),
+  },
+  
+  /** Product soft-delete and purge configuration */
+  products: {
+    /** Days a soft-deleted product is kept before being purged */
+    deletedRetentionDays: ConfigParser.parseInt('PRODUCT_DELETED_RETENTION_DAYS', 30, 1),
+    
+    /** Interval between purge runs in milliseconds (default: 1 hour) */
+    purgeIntervalMs: ConfigParser.parseInt('PRODUCT_PURGE_INTERVAL_MS', 3600000, 60000),
+    
+    /** Maximum rows hard-deleted per purge batch */
+    purgeBatchSize: ConfigParser.parseInt('PRODUCT_PURGE_BATCH_SIZE', 1000, 1),
+    
+    /** Rows fetched per keyset query when streaming exports */
+    exportBatchSize: ConfigParser.parseInt('PRODUCT_EXPORT_BATCH_SIZE', 1000, 1),
+    
+    /** Estimated match count up to which list totals use an exact COUNT(*) */
+    exactCountThreshold: ConfigParser.parseInt('PRODUCT_EXACT_COUNT_THRESHOLD', 10000, 0),
+  },
+  
+  /** Bulk product import configuration */
+  productImport: {
+    /** Rows upserted per transaction */
+    chunkSize: ConfigParser.parseInt('PRODUCT_IMPORT_CHUNK_SIZE', 500, 1),
+    
+    /** Maximum per-row errors stored on a job (rejected counts stay exact) */
+    maxRowErrors: ConfigParser.parseInt('PRODUCT_IMPORT_MAX_ROW_ERRORS', 1000, 1),
+  },
+  
+  /** Inventory reservation configuration */
+  reservations: {
+    /** Hold time when the client does not ask for one, in seconds (default: 15 minutes) */
+    defaultTtlSeconds: ConfigParser.parseInt('RESERVATION_DEFAULT_TTL_SECONDS', 900, 1),
+    
+    /** Longest hold a client may ask for, in seconds (default: 24 hours) */
+    maxTtlSeconds: ConfigParser.parseInt('RESERVATION_MAX_TTL_SECONDS', 86400, 1),
+    
+    /** Interval between expiry sweeps in milliseconds (default: 1 minute) */
+    expiryIntervalMs: ConfigParser.parseInt('RESERVATION_EXPIRY_INTERVAL_MS', 60000, 1000),
+    
+    /** Maximum reservations released per sweep */
+    expiryBatchSize: ConfigParser.parseInt('RESERVATION_EXPIRY_BATCH_SIZE', 500, 1),
+  },
+  
+  /** Low-stock alert configuration */
+  lowStock: {
+    /** Alert when stock drops below this, for categories without their own threshold */
+    defaultThreshold: ConfigParser.parseInt('LOW_STOCK_DEFAULT_THRESHOLD', 10, 0),
+    
+    /** Per-category thresholds, e.g. "electronics:20,furniture:5" */
+    categoryThresholds: ConfigParser.parseIntMap('LOW_STOCK_CATEGORY_THRESHOLDS', 0),
+    
+    /** Alert receiver URL (alerts are disabled when empty) */
+    webhookUrl: ConfigParser.getString('LOW_STOCK_WEBHOOK_URL', ''),
+    
+    /** HMAC secret for alert signatures (defaults to WEBHOOK_SECRET so our receiver accepts them) */
+    webhookSecret: ConfigParser.getString(
+      'LOW_STOCK_WEBHOOK_SECRET',
+      ConfigParser.getString('WEBHOOK_SECRET', '')
+    ),
+  },
+  
   /** Webhook processing configuration */
   webhook: {
-    /** Secret key for webhook signature verification */
+    /** Secret key for webhook signature verification (default source) */
     secret: ConfigParser.getString('WEBHOOK_SECRET', ''),
+
+    /** Signature settings per source, keyed by lower-case source name */
+    sources: parseWebhookSources(),
+
+    /** Maximum age in seconds of a signature timestamp (replay protection) */
+    timestampTolerance: ConfigParser.parseInt('WEBHOOK_TIMESTAMP_TOLERANCE', 300, 1),
     
-    /** Idempotency key TTL in seconds (prevents duplicate processing) */
+    /** TTL in seconds of the Redis idempotency pre-check (webhook_events is the source of truth) */
     idempotencyTTL: ConfigParser.parseInt('WEBHOOK_IDEMPOTENCY_TTL', 86400, 60),
+
+    /** Seconds an in-progress claim on an event survives a crashed handler (renewed while it runs) */
+    processingClaimTTL: ConfigParser.parseInt('WEBHOOK_PROCESSING_CLAIM_TTL', 60, 5),
+  },
+  
+  /** Incoming webhook job queue configuration */
+  webhookQueue: {
+    /** Interval between worker polls of the queue in milliseconds */
+    pollIntervalMs: ConfigParser.parseInt('WEBHOOK_QUEUE_POLL_INTERVAL_MS', 500, 50),
+
+    /** Jobs processed per poll */
+    batchSize: ConfigParser.parseInt('WEBHOOK_QUEUE_BATCH_SIZE', 50, 1),
+
+    /** Attempts per event (including the first) before it is dead-lettered */
+    maxAttempts: ConfigParser.parseInt('WEBHOOK_QUEUE_MAX_ATTEMPTS', 5, 1),
+
+    /** Delay before the first retry in milliseconds (exponential backoff) */
+    retryDelay: ConfigParser.parseInt('WEBHOOK_QUEUE_RETRY_DELAY', 1000, 100),
+
+    /** Dead-lettered jobs kept in Redis (oldest are dropped) */
+    deadLetterLimit: ConfigParser.parseInt('WEBHOOK_QUEUE_DEAD_LETTER_LIMIT', 1000, 1),
+
+    /** Seconds after which a stored event still not processed is queued again */
+    staleAfterSeconds: ConfigParser.parseInt('WEBHOOK_QUEUE_STALE_AFTER_SECONDS', 300, 60),
+  },
+
+  /** Transactional outbox relay configuration */
+  outbox: {
+    /** Interval between relay runs in milliseconds */
+    relayIntervalMs: ConfigParser.parseInt('OUTBOX_RELAY_INTERVAL_MS', 1000, 100),
+    
+    /** Rows read per relay batch */
+    relayBatchSize: ConfigParser.parseInt('OUTBOX_RELAY_BATCH_SIZE', 100, 1),
+    
+    /** Days dispatched rows are kept before being deleted */
+    dispatchedRetentionDays: ConfigParser.parseInt('OUTBOX_DISPATCHED_RETENTION_DAYS', 7, 1),
+  },
+  
+  /** Outbound webhook delivery configuration */
+  webhookDelivery: {
+    /** Attempts per delivery (including the first) before it is dead-lettered */
+    retryAttempts: ConfigParser.parseInt('WEBHOOK_DELIVERY_RETRY_ATTEMPTS', 5, 1),
+    
+    /** Delay before the first retry in milliseconds (exponential backoff) */
+    retryDelay: ConfigParser.parseInt('WEBHOOK_DELIVERY_RETRY_DELAY', 1000, 100),
+    
+    /** Request timeout per attempt in milliseconds */
+    timeout: ConfigParser.parseInt('WEBHOOK_DELIVERY_TIMEOUT', 5000, 1000),
+
+    /** Interval between worker polls of the delivery queue in milliseconds */
+    pollIntervalMs: ConfigParser.parseInt('WEBHOOK_DELIVERY_POLL_INTERVAL_MS', 500, 50),
+
+    /** Deliveries sent per poll */
+    batchSize: ConfigParser.parseInt('WEBHOOK_DELIVERY_BATCH_SIZE', 50, 1),
+
+    /** Days delivered and dead deliveries are kept before deletion */
+    retentionDays: ConfigParser.parseInt('WEBHOOK_DELIVERY_RETENTION_DAYS', 7, 1),
   },
   
   /** Application logging configuration */
@@ -0,0 +1,66 @@
+import { Request, Response } from 'express';
+import { ProductController } from './product.controller';
+import { ProductService } from '../services/product.service';
+import { BadRequestError, PreconditionFailedError } from '../types/errors';
+
+jest.mock('../services/product.service');
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('ProductController.updateProduct If-Match', () => {
+  const updateProduct = ProductService.prototype.updateProduct as jest.Mock;
+
+  /** Sends a PATCH with the given If-Match header and returns what reached next() */
+  const patch = async (ifMatch: string | undefined): Promise<unknown> => {
+    const headers: Record<string, string | undefined> = { 'if-match': ifMatch };
+    const req = {
+      params: { id: 'prod-1' },
+      body: { price: 12 },
+      get: (name: string) => headers[name.toLowerCase()],
+    } as unknown as Request;
+    const res = {
+      locals: { requestId: 'req-1' },
+      setHeader: jest.fn(),
+      json: jest.fn(),
+    } as unknown as Response;
+    const next = jest.fn();
+
+    await new ProductController().updateProduct(req, res, next);
+
+    return next.mock.calls[0]?.[0];
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    updateProduct.mockResolvedValue({ id: 'prod-1', version: 4 });
+  });
+
+  it.each([
+    ['a strong ETag', '"3"', 3],
+    ['a wildcard', '*', undefined],
+    ['no header', undefined, undefined],
+  ])('passes the expected version on for %s', async (_label, ifMatch, expectedVersion) => {
+    await expect(patch(ifMatch)).resolves.toBeUndefined();
+
+    expect(updateProduct).toHaveBeenCalledWith(
+      'prod-1',
+      expect.anything(),
+      expect.anything(),
+      expectedVersion
+    );
+  });
+
+  it('fails a weak ETag with 412 without writing', async () => {
+    const error = await patch('W/"3"');
+
+    expect(error).toBeInstanceOf(PreconditionFailedError);
+    expect(error).toMatchObject({ statusCode: 412 });
+    expect(updateProduct).not.toHaveBeenCalled();
+  });
+
+  it('rejects a header that is not a version ETag with 400', async () => {
+    await expect(patch('"abc"')).resolves.toBeInstanceOf(BadRequestError);
+    expect(updateProduct).not.toHaveBeenCalled();
+  });
+});
@@ -3,20 +3,48 @@
  * 
  * Handles HTTP requests for product-related operations:
  * - List products with pagination, filtering, and sorting
+ * - Stream full catalogue exports (CSV, NDJSON, JSON)
  * - Get individual product by ID
+ * - Create, update, soft-delete and restore products
+ * - Product change history, price history and point-in-time snapshots
  * - Input validation and query parameter parsing
  * 
  * @module controllers/product.controller
  */
 
+import { once } from 'events';
 import { Request, Response, NextFunction } from 'express';
 import { ProductService } from '../services/product.service';
-import { ProductListQuery } from '../types/product.types';
+import { PRODUCT_FIELDS } from '../repositories/product.repository';
+import {
+  CreateProductInput,
+  ProductFacetName,
+  ProductField,
+  ProductListQuery,
+  UpdateProductInput,
+} from '../types/product.types';
+import { ProductHistoryQuery } from '../types/productAudit.types';
 import { logger } from '../utils/logger';
+import { toCsvRow } from '../utils/csv';
+import { BadRequestError, ForbiddenError, PreconditionFailedError } from '../types/errors';
+import { isAdminRequest } from '../middleware/adminAuth';
+import { getAuditContext } from '../middleware/requestContext';
 
 /** Default page size for product listings */
 const DEFAULT_PAGE_LIMIT = 50;
 
+/** Supported export formats and their response content types */
+const EXPORT_CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+} as const;
+
+type ExportFormat = keyof typeof EXPORT_CONTENT_TYPES;
+
+/** Matches a strong ETag carrying a product version, e.g. "3" */
+const VERSION_ETAG_PATTERN = /^"(\d+)"$/;
+
 /**
  * Controller for product-related HTTP endpoints.
  * 
@@ -37,12 +65,23 @@ export class ProductController {
    * @route GET /api/v1/products
    * @query cursor - Pagination cursor (optional)
    * @query limit - Page size (default: 50)
-   * @query sortBy - Sort field: name, price, createdAt, updatedAt
+   * @query sortBy - Sort field: name, price, createdAt, updatedAt, relevance (requires search)
    * @query sortOrder - Sort direction: asc, desc
-   * @query category - Filter by category (optional)
-   * @query search - Search in name/description (optional)
+   * @query category - Filter by one or more categories, comma-separated or repeated (optional)
+   * @query search - Full-text search in name/description; supports boolean
+   *   operators (+word -word word*) and "quoted phrases" (optional)
    * @query minPrice - Minimum price filter (optional)
    * @query maxPrice - Maximum price filter (optional)
+   * @query inStock - true: stock > 0, false: out of stock (optional)
+   * @query minStock - Minimum stock filter (optional)
+   * @query maxStock - Maximum stock filter (optional)
+   * @query createdAfter - ISO 8601 lower bound on creation time, exclusive (optional)
+   * @query createdBefore - ISO 8601 upper bound on creation time, exclusive (optional)
+   * @query updatedSince - ISO 8601 lower bound on last update, inclusive (optional)
+   * @query includeDeleted - Include soft-deleted products (admin only)
+   * @query includeTotal - Add total count (exact or estimated) to pagination
+   * @query facets - Comma-separated facets to add: category, price, stock
+   * @query fields - Comma-separated sparse fieldset, e.g. id,name,price (optional)
    * 
    * @returns JSON response with products array and pagination metadata
    */
@@ -65,11 +104,113 @@ export class ProductController {
     }
   };
 
+  /**
+   * Streams every product matching the list filters as a file download.
+   * 
+   * @route GET /api/v1/products/export
+   * @query format - csv, ndjson or json (default: csv)
+   * @query ... - Same filters, sort and fields as the list endpoint (cursor/limit ignored)
+   * 
+   * @returns Streamed file with content-disposition attachment
+   * 
+   * @remarks
+   * Rows are written batch by batch with backpressure. Errors after the
+   * first byte cannot become a JSON error response, so the connection is
+   * destroyed and the client sees a truncated download.
+   */
+  public exportProducts = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    let started = false;
+
+    try {
+      const format = ((req.query.format as string) || 'csv') as ExportFormat;
+      const query = this.parseListQuery(req);
+      const columns = query.fields
+        ? [...new Set<ProductField>(['id', ...query.fields])]
+        : PRODUCT_FIELDS;
+
+      logger.info('Exporting products', { format, query });
+
+      let aborted = false;
+      res.on('close', () => {
+        aborted = !res.writableFinished;
+      });
+
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      res.status(200);
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="products-${timestamp}.${format}"`);
+
+      let first = true;
+      const write = async (chunk: string): Promise<void> => {
+        started = true;
+        if (res.write(chunk) || aborted) {
+          return;
+        }
+
+        // A client that disconnects never drains - stop waiting on 'close' too
+        const waiting = new AbortController();
+        try {
+          await Promise.race([
+            once(res, 'drain', { signal: waiting.signal }),
+            once(res, 'close', { signal: waiting.signal }),
+          ]);
+        } finally {
+          waiting.abort();
+        }
+      };
+
+      if (format === 'csv') {
+        await write(`${toCsvRow(columns)}\r\n`);
+      } else if (format === 'json') {
+        await write('[');
+      }
+
+      for await (const batch of this.productService.streamProducts(query)) {
+        let chunk = '';
+        for (const product of batch) {
+          if (format === 'csv') {
+            chunk += `${toCsvRow(columns.map((column) => product[column]))}\r\n`;
+          } else if (format === 'ndjson') {
+            chunk += `${JSON.stringify(product)}\n`;
+          } else {
+            chunk += `${first ? '' : ','}${JSON.stringify(product)}`;
+          }
+          first = false;
+        }
+        await write(chunk);
+
+        // Leaving the loop closes the generator, so no further batch is read
+        if (aborted) {
+          logger.info('Product export aborted by client');
+          return;
+        }
+      }
+
+      if (format === 'json') {
+        await write(']');
+      }
+
+      res.end();
+    } catch (error) {
+      if (started) {
+        logger.error('Product export failed mid-stream', { error });
+        res.destroy(error as Error);
+      } else {
+        next(error);
+      }
+    }
+  };
+
   /**
    * Parses and validates product list query parameters.
    * 
    * @param req - Express request object
    * @returns Validated query object
+   * @throws {ForbiddenError} If includeDeleted is requested by a non-admin
    * @private
    */
   private parseListQuery(req: Request): ProductListQuery {
@@ -80,7 +221,7 @@ export class ProductController {
         : DEFAULT_PAGE_LIMIT,
       sortBy: (req.query.sortBy as any) || 'createdAt',
       sortOrder: (req.query.sortOrder as any) || 'desc',
-      category: req.query.category as string | undefined,
+      category: this.parseList(req.query.category),
       search: req.query.search as string | undefined,
       minPrice: req.query.minPrice 
         ? parseFloat(req.query.minPrice as string) 
@@ -88,6 +229,30 @@ export class ProductController {
       maxPrice: req.query.maxPrice 
         ? parseFloat(req.query.maxPrice as string) 
         : undefined,
+      inStock: req.query.inStock !== undefined
+        ? req.query.inStock === 'true'
+        : undefined,
+      minStock: req.query.minStock
+        ? parseInt(req.query.minStock as string, 10)
+        : undefined,
+      maxStock: req.query.maxStock
+        ? parseInt(req.query.maxStock as string, 10)
+        : undefined,
+      createdAfter: req.query.createdAfter
+        ? new Date(req.query.createdAfter as string)
+        : undefined,
+      createdBefore: req.query.createdBefore
+        ? new Date(req.query.createdBefore as string)
+        : undefined,
+      updatedSince: req.query.updatedSince
+        ? new Date(req.query.updatedSince as string)
+        : undefined,
+      includeDeleted: this.parseIncludeDeleted(req),
+      includeTotal: req.query.includeTotal === 'true',
+      fields: this.parseList(req.query.fields) as ProductField[] | undefined,
+      facets: req.query.facets
+        ? ((req.query.facets as string).split(',').map((facet) => facet.trim()) as ProductFacetName[])
+        : undefined,
     };
   }
 
@@ -96,8 +261,11 @@ export class ProductController {
    * 
    * @route GET /api/v1/products/:id
    * @param id - Product unique identifier
+   * @query includeDeleted - Return the product even if soft-deleted (admin only)
+   * @query fields - Comma-separated sparse fieldset, e.g. id,name,price (optional)
+   * @query asOf - ISO 8601 timestamp; return the product as it was at that time (optional)
    * @returns JSON response with product data
-   * @throws {NotFoundError} If product doesn't exist
+   * @throws {NotFoundError} If product doesn't exist (or didn't at asOf)
    */
   public getProduct = async (
     req: Request,
@@ -106,11 +274,208 @@ export class ProductController {
   ): Promise<void> => {
     try {
       const { id } = req.params;
+      const includeDeleted = this.parseIncludeDeleted(req);
       
-      logger.info('Fetching product by ID', { id });
+      logger.info('Fetching product by ID', { id, includeDeleted });
+
+      const fields = this.parseList(req.query.fields) as ProductField[] | undefined;
+
+      if (req.query.asOf) {
+        const snapshot = await this.productService.getProductAsOf(
+          id,
+          new Date(req.query.asOf as string),
+          includeDeleted,
+          fields
+        );
+
+        // Historical state cannot be used as an If-Match precondition - no ETag
+        res.json({
+          success: true,
+          data: snapshot,
+        });
+        return;
+      }
+
+      const product = fields
+        ? await this.productService.getProductFields(id, fields, includeDeleted)
+        : await this.productService.getProductById(id, includeDeleted);
+
+      // Sparse fieldsets only carry an ETag when they include the version
+      if (product.version !== undefined) {
+        res.setHeader('ETag', this.toETag(product.version));
+      }
+      res.json({
+        success: true,
+        data: product,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Retrieves many products by ID in one call.
+   * 
+   * @route POST /api/v1/products/batch-get
+   * @body ids - Product IDs (1-200)
+   * @returns JSON response with found products (request order) and the ids not found
+   */
+  public batchGetProducts = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const ids: string[] = req.body.ids;
+
+      logger.info('Batch fetching products', { count: ids.length });
+
+      const { products, notFound } = await this.productService.getProductsByIds(ids);
+
+      res.json({
+        success: true,
+        data: products,
+        notFound,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Creates a new product.
+   * 
+   * @route POST /api/v1/products
+   * @body name - Product name (required)
+   * @body price - Product price (required)
+   * @body description, category, stock - Optional fields
+   * @returns JSON response with the created product (201)
+   */
+  public createProduct = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const input: CreateProductInput = {
+        name: req.body.name,
+        description: req.body.description,
+        price: req.body.price,
+        category: req.body.category,
+        stock: req.body.stock,
+      };
+
+      logger.info('Creating product', { name: input.name });
+
+      const product = await this.productService.createProduct(
+        input,
+        getAuditContext(req, res)
+      );
+
+      res.setHeader('ETag', this.toETag(product.version));
+      res.status(201).json({
+        success: true,
+        data: product,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Partially updates a product.
+   * 
+   * @route PATCH /api/v1/products/:id
+   * @param id - Product unique identifier
+   * @header If-Match - ETag from a previous read; rejects the write if stale (optional)
+   * @returns JSON response with the updated product
+   * @throws {NotFoundError} If product doesn't exist
+   * @throws {ConflictError} If the If-Match version is no longer current
+   * @throws {PreconditionFailedError} If If-Match carries a weak ETag
+   */
+  public updateProduct = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const updates: UpdateProductInput = {
+        name: req.body.name,
+        description: req.body.description,
+        price: req.body.price,
+        category: req.body.category,
+        stock: req.body.stock,
+      };
+
+      const expectedVersion = this.parseIfMatch(req.get('If-Match'));
+
+      logger.info('Updating product', { id, expectedVersion });
+
+      const product = await this.productService.updateProduct(
+        id,
+        updates,
+        getAuditContext(req, res),
+        expectedVersion
+      );
+
+      res.setHeader('ETag', this.toETag(product.version));
+      res.json({
+        success: true,
+        data: product,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Soft-deletes a product.
+   * 
+   * @route DELETE /api/v1/products/:id
+   * @param id - Product unique identifier
+   * @returns Empty response (204)
+   * @throws {NotFoundError} If product doesn't exist
+   */
+  public deleteProduct = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params;
 
-      const product = await this.productService.getProductById(id);
+      logger.info('Deleting product', { id });
 
+      await this.productService.deleteProduct(id, getAuditContext(req, res));
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Restores a soft-deleted product.
+   * 
+   * @route POST /api/v1/products/:id/restore
+   * @param id - Product unique identifier
+   * @returns JSON response with the restored product
+   * @throws {NotFoundError} If no soft-deleted product has this ID
+   */
+  public restoreProduct = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      logger.info('Restoring product', { id });
+
+      const product = await this.productService.restoreProduct(id, getAuditContext(req, res));
+
+      res.setHeader('ETag', this.toETag(product.version));
       res.json({
         success: true,
         data: product,
@@ -119,4 +484,148 @@ export class ProductController {
       next(error);
     }
   };
+
+  /**
+   * Retrieves a product's change history, newest first.
+   * 
+   * @route GET /api/v1/products/:id/history
+   * @param id - Product unique identifier
+   * @query cursor - Pagination cursor from a previous page (optional)
+   * @query limit - Number of entries per page (default: 50, max: 100)
+   * @returns JSON response with audit entries (before/after state, actor, request id)
+   * @throws {NotFoundError} If the product never existed
+   */
+  public getProductHistory = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const historyQuery: ProductHistoryQuery = {
+        cursor: req.query.cursor as string | undefined,
+        limit: req.query.limit
+          ? parseInt(req.query.limit as string, 10)
+          : DEFAULT_PAGE_LIMIT,
+      };
+
+      logger.info('Fetching product history', { id, cursor: historyQuery.cursor });
+
+      const result = await this.productService.getProductHistory(id, historyQuery);
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Retrieves a product's price changes, oldest first.
+   * 
+   * @route GET /api/v1/products/:id/prices
+   * @param id - Product unique identifier
+   * @query from - ISO 8601 range start (optional)
+   * @query to - ISO 8601 range end (optional)
+   * @returns JSON response with the changes and the price in effect at `from`
+   * @throws {NotFoundError} If the product never existed
+   */
+  public getPriceHistory = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+      if (from && to && from > to) {
+        throw new BadRequestError('from must not be after to');
+      }
+
+      logger.info('Fetching product price history', { id, from, to });
+
+      const { changes, priceAtFrom } = await this.productService.getPriceHistory(id, from, to);
+
+      res.json({
+        success: true,
+        data: changes,
+        priceAtFrom,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Normalizes a list parameter given as `a,b` or repeated (`?x=a&x=b`).
+   * 
+   * @returns Sorted, de-duplicated values, or undefined if none were given
+   * @private
+   */
+  private parseList(value: unknown): string[] | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    const values = (Array.isArray(value) ? value : [value])
+      .flatMap((item) => String(item).split(','))
+      .map((item) => item.trim())
+      .filter(Boolean);
+
+    return values.length > 0 ? [...new Set(values)].sort() : undefined;
+  }
+
+  /**
+   * Reads the includeDeleted flag, which only admins may set.
+   * 
+   * @throws {ForbiddenError} If the flag is set without a valid admin key
+   * @private
+   */
+  private parseIncludeDeleted(req: Request): boolean {
+    if (req.query.includeDeleted !== 'true') {
+      return false;
+    }
+
+    if (!isAdminRequest(req)) {
+      throw new ForbiddenError('includeDeleted requires admin access');
+    }
+
+    return true;
+  }
+
+  /**
+   * Formats a product version as a strong ETag.
+   * @private
+   */
+  private toETag(version: number): string {
+    return `"${version}"`;
+  }
+
+  /**
+   * Extracts the expected product version from an If-Match header.
+   * 
+   * @param header - Raw If-Match header value
+   * @returns Expected version, or undefined when the header is absent or "*"
+   * @throws {PreconditionFailedError} If the header is a weak ETag, which If-Match never matches
+   * @throws {BadRequestError} If the header is not a product version ETag
+   * @private
+   */
+  private parseIfMatch(header: string | undefined): number | undefined {
+    if (!header || header.trim() === '*') {
+      return undefined;
+    }
+
+    // If-Match uses strong comparison (RFC 9110 13.1.1), so a weak tag never matches
+    if (header.trim().startsWith('W/')) {
+      throw new PreconditionFailedError('If-Match requires a strong ETag');
+    }
+
+    const match = VERSION_ETAG_PATTERN.exec(header.trim());
+    if (!match) {
+      throw new BadRequestError('If-Match must be an ETag returned by this API');
+    }
+
+    return parseInt(match[1], 10);
+  }
 }
@@ -0,0 +1,116 @@
+/**
+ * Product Import Controller
+ * 
+ * Handles HTTP requests for bulk product imports:
+ * - Accept CSV or NDJSON files and start an import job
+ * - Report import job progress and per-row errors
+ * 
+ * @module controllers/productImport.controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ProductImportService } from '../services/productImport.service';
+import { ProductImportFormat } from '../types/productImport.types';
+import { BadRequestError } from '../types/errors';
+import { logger } from '../utils/logger';
+import { getAuditContext } from '../middleware/requestContext';
+
+/** Content types accepted for each import format */
+const IMPORT_CONTENT_TYPES: Record<ProductImportFormat, string[]> = {
+  csv: ['text/csv'],
+  ndjson: ['application/x-ndjson', 'application/ndjson'],
+};
+
+/**
+ * Controller for product import endpoints.
+ * 
+ * @class ProductImportController
+ */
+export class ProductImportController {
+  private readonly importService: ProductImportService;
+
+  constructor() {
+    this.importService = new ProductImportService();
+  }
+
+  /**
+   * Starts a bulk import from the request body.
+   * 
+   * @route POST /api/v1/products/imports
+   * @header Content-Type - text/csv or application/x-ndjson
+   * @returns JSON response with the pending job (202)
+   * @throws {BadRequestError} If the body is empty or the content type is unsupported
+   */
+  public createImport = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const format = this.detectFormat(req);
+
+      if (typeof req.body !== 'string' || req.body.trim() === '') {
+        throw new BadRequestError('Import file is empty');
+      }
+
+      logger.info('Starting product import', { format });
+
+      const job = await this.importService.startImport(
+        req.body,
+        format,
+        getAuditContext(req, res)
+      );
+
+      res.status(202)
+        .setHeader('Location', `${req.baseUrl}/imports/${job.id}`)
+        .json({
+          success: true,
+          data: job,
+        });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Retrieves an import job.
+   * 
+   * @route GET /api/v1/products/imports/:id
+   * @param id - Import job ID
+   * @returns JSON response with counts of accepted/rejected rows and row errors
+   * @throws {NotFoundError} If the job doesn't exist
+   */
+  public getImport = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const job = await this.importService.getImport(req.params.id);
+
+      res.json({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Maps the request content type to an import format.
+   * 
+   * @throws {BadRequestError} If the content type is not supported
+   * @private
+   */
+  private detectFormat(req: Request): ProductImportFormat {
+    const formats = Object.keys(IMPORT_CONTENT_TYPES) as ProductImportFormat[];
+    const format = formats.find((candidate) => req.is(IMPORT_CONTENT_TYPES[candidate]));
+
+    if (!format) {
+      throw new BadRequestError('Content-Type must be text/csv or application/x-ndjson');
+    }
+
+    return format;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Product Reservation Controller
+ *
+ * Handles HTTP requests for checkout stock holds:
+ * - Reserve stock for a product
+ * - Inspect, commit or release a reservation
+ *
+ * @module controllers/productReservation.controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ProductReservationService } from '../services/productReservation.service';
+import { CreateReservationInput } from '../types/productReservation.types';
+import { logger } from '../utils/logger';
+import { getAuditContext } from '../middleware/requestContext';
+
+/**
+ * Controller for product reservation endpoints.
+ *
+ * @class ProductReservationController
+ */
+export class ProductReservationController {
+  private readonly reservationService: ProductReservationService;
+
+  constructor() {
+    this.reservationService = new ProductReservationService();
+  }
+
+  /**
+   * Reserves stock for a product.
+   *
+   * @route POST /api/v1/products/:id/reservations
+   * @param id - Product unique identifier
+   * @body quantity - Units to hold (required)
+   * @body ttlSeconds - Seconds before the hold expires (optional)
+   * @returns JSON response with the active reservation (201)
+   * @throws {NotFoundError} If product doesn't exist
+   * @throws {ConflictError} If there is not enough stock
+   */
+  public createReservation = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const input: CreateReservationInput = {
+        quantity: req.body.quantity,
+        ttlSeconds: req.body.ttlSeconds,
+      };
+
+      logger.info('Reserving stock', { id, quantity: input.quantity });
+
+      const reservation = await this.reservationService.reserve(
+        id,
+        input,
+        getAuditContext(req, res)
+      );
+
+      res.status(201)
+        .setHeader('Location', `${req.baseUrl}/${id}/reservations/${reservation.id}`)
+        .json({
+          success: true,
+          data: reservation,
+        });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Retrieves a reservation.
+   *
+   * @route GET /api/v1/products/:id/reservations/:reservationId
+   * @returns JSON response with the reservation
+   * @throws {NotFoundError} If the reservation doesn't exist for this product
+   */
+  public getReservation = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id, reservationId } = req.params;
+
+      const reservation = await this.reservationService.getReservation(id, reservationId);
+
+      res.json({
+        success: true,
+        data: reservation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Commits a reservation, making the stock decrement permanent.
+   *
+   * @route POST /api/v1/products/:id/reservations/:reservationId/commit
+   * @returns JSON response with the committed reservation
+   * @throws {NotFoundError} If the reservation doesn't exist for this product
+   * @throws {ConflictError} If the reservation is no longer active or has expired
+   */
+  public commitReservation = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id, reservationId } = req.params;
+
+      logger.info('Committing reservation', { id, reservationId });
+
+      const reservation = await this.reservationService.commit(id, reservationId);
+
+      res.json({
+        success: true,
+        data: reservation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Releases a reservation and returns its stock.
+   *
+   * @route DELETE /api/v1/products/:id/reservations/:reservationId
+   * @returns JSON response with the released reservation
+   * @throws {NotFoundError} If the reservation doesn't exist for this product
+   * @throws {ConflictError} If the reservation is no longer active
+   */
+  public releaseReservation = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id, reservationId } = req.params;
+
+      logger.info('Releasing reservation', { id, reservationId });
+
+      const reservation = await this.reservationService.release(
+        id,
+        reservationId,
+        getAuditContext(req, res)
+      );
+
+      res.json({
+        success: true,
+        data: reservation,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
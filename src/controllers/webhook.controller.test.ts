@@ -0,0 +1,35 @@
+import { Request, Response } from 'express';
+import { WebhookController } from './webhook.controller';
+import { WebhookEventService } from '../services/webhookEvent.service';
+import { NotFoundError } from '../types/errors';
+
+jest.mock('../services/webhookEvent.service');
+
+describe('WebhookController.handleWebhook', () => {
+  const controller = new WebhookController();
+
+  const post = async (source: string): Promise<unknown> => {
+    const req = {
+      params: { source },
+      headers: { 'x-webhook-signature': 't=1,v1=abc' },
+      body: { id: 'evt_1', type: 'test.event', data: {} },
+    } as unknown as Request;
+    const res = { locals: { requestId: 'req-1' } } as unknown as Response;
+    const next = jest.fn();
+
+    await controller.handleWebhook(req, res, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    return next.mock.calls[0][0];
+  };
+
+  it.each(['unknown', 'constructor', '__proto__', 'tostring', 'hasownproperty'])(
+    'rejects the unconfigured source "%s" with 404',
+    async (source) => {
+      const error = await post(source);
+
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(WebhookEventService.prototype.accept).not.toHaveBeenCalled();
+    }
+  );
+});
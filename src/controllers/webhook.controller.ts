@@ -1,14 +1,37 @@
 import { Request, Response, NextFunction } from 'express';
-import { cacheGet, cacheSet } from '../infrastructure/redis';
 import { config } from '../config';
-import { logger } from '../utils/logger';
-import { BadRequestError } from '../types/errors';
-import crypto from 'crypto';
+import { BadRequestError, NotFoundError } from '../types/errors';
+import { verifyWebhookSignature } from '../utils/webhookSignature';
+import { getRawBody } from '../middleware/rawBody';
+import { WebhookEventService } from '../services/webhookEvent.service';
+import { WebhookAcceptOutcome } from '../types/webhook.types';
+
+/** Source of events posted to /webhooks/events */
+const DEFAULT_SOURCE = 'default';
+
+/** Maximum idempotency key length (matches webhook_events.event_id) */
+const MAX_EVENT_ID_LENGTH = 255;
+
+/** Maximum event type length (matches webhook_events.event_type) */
+const MAX_EVENT_TYPE_LENGTH = 100;
+
+/** Response message per accept outcome */
+const RESPONSE_MESSAGES: Record<WebhookAcceptOutcome, string> = {
+  accepted: 'Event accepted for processing',
+  duplicate: 'Event already processed',
+};
 
 export class WebhookController {
+  private readonly eventService: WebhookEventService;
+
+  constructor() {
+    this.eventService = new WebhookEventService();
+  }
+
   /**
    * POST /api/v1/webhooks/events
-   * Webhook receiver with idempotency and safe retry handling
+   * POST /api/v1/webhooks/:source/events
+   * Webhook receiver: verifies, stores and queues events (processed by the webhook worker)
    */
   public handleWebhook = async (
     req: Request,
@@ -18,115 +41,54 @@ export class WebhookController {
     try {
       const { body, headers } = req;
 
-      // 1. Verify webhook signature
-      const signature = headers['x-webhook-signature'] as string;
-      if (!this.verifySignature(JSON.stringify(body), signature)) {
+      // 1. Verify webhook signature with the source's scheme (over the raw body)
+      const source = req.params.source ?? DEFAULT_SOURCE;
+      const sourceConfig = config.webhook.sources.get(source);
+      if (!sourceConfig) {
+        throw new NotFoundError(`Unknown webhook source: ${source}`);
+      }
+
+      const signature = headers[sourceConfig.signatureHeader] as string | undefined;
+      const check = verifyWebhookSignature(
+        getRawBody(req) ?? '',
+        signature,
+        sourceConfig,
+        config.webhook.timestampTolerance
+      );
+      if (check === 'stale') {
+        throw new BadRequestError('Webhook timestamp outside the allowed tolerance');
+      }
+      if (check !== 'valid') {
         throw new BadRequestError('Invalid webhook signature');
       }
 
-      // 2. Check idempotency (prevent duplicate processing)
+      // 2. Validate the envelope
       const idempotencyKey = headers['x-idempotency-key'] as string || body.id;
       if (!idempotencyKey) {
         throw new BadRequestError('Missing idempotency key');
       }
-
-      const isProcessed = await this.checkIdempotency(idempotencyKey);
-      if (isProcessed) {
-        logger.info('Webhook already processed (idempotent)', { idempotencyKey });
-        // Return 200 to acknowledge (prevents retries)
-        res.status(200).json({
-          success: true,
-          message: 'Event already processed',
-        });
-        return;
+      if (typeof idempotencyKey !== 'string' || idempotencyKey.length > MAX_EVENT_ID_LENGTH) {
+        throw new BadRequestError(`Idempotency key must be a string of at most ${MAX_EVENT_ID_LENGTH} characters`);
+      }
+      if (typeof body.type !== 'string' || body.type.length === 0 || body.type.length > MAX_EVENT_TYPE_LENGTH) {
+        throw new BadRequestError(`Event type must be a string of 1-${MAX_EVENT_TYPE_LENGTH} characters`);
       }
 
-      // 3. Process webhook payload
-      logger.info('Processing webhook event', {
-        idempotencyKey,
-        eventType: body.type,
-      });
-
-      // TODO: Implement actual webhook processing logic
-      await this.processWebhookEvent(body);
-
-      // 4. Mark as processed (store idempotency key)
-      await this.markAsProcessed(idempotencyKey);
+      // 3. Store and queue the event (skipped if already processed)
+      const outcome = await this.eventService.accept(
+        { source, id: idempotencyKey, type: body.type, data: body.data },
+        res.locals.requestId
+      );
 
-      // 5. Return success response
-      res.status(200).json({
+      // 4. 202 - a worker processes it; 200 for duplicates (prevents retries)
+      res.status(outcome === 'accepted' ? 202 : 200).json({
         success: true,
-        message: 'Webhook processed successfully',
+        message: RESPONSE_MESSAGES[outcome],
       });
     } catch (error) {
-      // Log error but still return 200 to prevent unnecessary retries
-      // Only return error status for client errors (4xx)
-      if (error instanceof BadRequestError) {
-        next(error);
-      } else {
-        logger.error('Error processing webhook', error);
-        res.status(200).json({
-          success: false,
-          message: 'Webhook received but processing failed',
-        });
-      }
+      // Any failure to store or queue the event is an error response, so the
+      // sender retries instead of the event being lost
+      next(error);
     }
   };
-
-  /**
-   * Verify webhook signature using HMAC
-   */
-  private verifySignature(payload: string, signature: string): boolean {
-    if (!signature || !config.webhook.secret) {
-      return false;
-    }
-
-    const expectedSignature = crypto
-      .createHmac('sha256', config.webhook.secret)
-      .update(payload)
-      .digest('hex');
-
-    return crypto.timingSafeEqual(
-      Buffer.from(signature),
-      Buffer.from(expectedSignature)
-    );
-  }
-
-  /**
-   * Check if webhook has already been processed
-   */
-  private async checkIdempotency(key: string): Promise<boolean> {
-    const cacheKey = `webhook:idempotency:${key}`;
-    const cached = await cacheGet(cacheKey);
-    return cached !== null;
-  }
-
-  /**
-   * Mark webhook as processed
-   */
-  private async markAsProcessed(key: string): Promise<void> {
-    const cacheKey = `webhook:idempotency:${key}`;
-    await cacheSet(cacheKey, '1', config.webhook.idempotencyTTL);
-  }
-
-  /**
-   * Process webhook event
-   * TODO: Implement actual business logic
-   */
-  private async processWebhookEvent(payload: any): Promise<void> {
-    // TODO: Implement webhook processing logic based on event type
-    // Examples:
-    // - Update database records
-    // - Trigger background jobs
-    // - Send notifications
-    // - Update cache
-    
-    logger.info('Webhook event processed', {
-      eventType: payload.type,
-      eventId: payload.id,
-    });
-
-    // Simulate processing time
-    await new Promise((resolve) => setTimeout(resolve, 100));
-  }
 }
@@ -0,0 +1,205 @@
+/**
+ * Webhook Admin Controller
+ * 
+ * Handles admin HTTP requests for incoming webhooks:
+ * - Queue depth and recent failures
+ * - Search and inspection of received events
+ * - Replay of one event or a filtered range
+ * 
+ * @module controllers/webhookAdmin.controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { WebhookWorkerService } from '../services/webhookWorker.service';
+import { WebhookEventService } from '../services/webhookEvent.service';
+import { WebhookEventFilters, WebhookEventStatus } from '../types/webhook.types';
+import { logger } from '../utils/logger';
+
+/** Default number of recent failures returned */
+const DEFAULT_FAILURE_LIMIT = 20;
+
+/** Default number of events replayed per bulk replay call */
+const DEFAULT_REPLAY_LIMIT = 100;
+
+/**
+ * Controller for incoming webhook admin endpoints.
+ * 
+ * @class WebhookAdminController
+ */
+export class WebhookAdminController {
+  private readonly workerService: WebhookWorkerService;
+  private readonly eventService: WebhookEventService;
+
+  constructor() {
+    this.workerService = new WebhookWorkerService();
+    this.eventService = new WebhookEventService();
+  }
+
+  /**
+   * Reports the incoming webhook queue.
+   * 
+   * @route GET /api/v1/webhooks/admin/queue
+   * @query failureLimit - Dead-lettered jobs to include (default 20)
+   * @returns JSON response with ready, delayed and dead counts and recent failures
+   */
+  public getQueueStatus = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const failureLimit = req.query.failureLimit
+        ? parseInt(req.query.failureLimit as string, 10)
+        : DEFAULT_FAILURE_LIMIT;
+
+      const status = await this.workerService.getQueueStatus(failureLimit);
+
+      res.json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Searches received events, newest first.
+   * 
+   * @route GET /api/v1/webhooks/admin/events
+   * @query source, eventId, type, status - Exact-match filters (optional)
+   * @query from, to - received_at range, ISO 8601 (optional)
+   * @query cursor, limit - Pagination
+   * @returns JSON response with events (without payloads) and pagination
+   * @throws {BadRequestError} If the cursor is invalid
+   */
+  public listEvents = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const result = await this.eventService.listEvents({
+        ...this.parseFilters(req.query),
+        cursor: req.query.cursor as string | undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+      });
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Retrieves a received event with its payload and processing error.
+   * 
+   * @route GET /api/v1/webhooks/admin/events/:id
+   * @returns JSON response with the event
+   * @throws {NotFoundError} If the event doesn't exist
+   */
+  public getEvent = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const event = await this.eventService.getEvent(parseInt(req.params.id, 10));
+
+      res.json({
+        success: true,
+        data: event,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Queues a received event to be processed again.
+   * 
+   * @route POST /api/v1/webhooks/admin/events/:id/replay
+   * @body force - Also replay a processed event (optional, default false)
+   * @returns JSON response with the reset event (202)
+   * @throws {NotFoundError} If the event doesn't exist
+   * @throws {ConflictError} If the event was processed and force is not set
+   */
+  public replayEvent = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const id = parseInt(req.params.id, 10);
+
+      logger.info('Replaying webhook event', { id, force: req.body.force === true });
+
+      const event = await this.eventService.replayEvent(
+        id,
+        req.body.force === true,
+        res.locals.requestId
+      );
+
+      res.status(202).json({
+        success: true,
+        data: event,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Queues every received event matching filters to be processed again, oldest first.
+   * 
+   * @route POST /api/v1/webhooks/admin/events/replay
+   * @body source, eventId, type, status, from, to - Filters (at least one)
+   * @body force - Also replay processed events (optional, default false)
+   * @body limit - Events per call (optional, default 100)
+   * @body afterId - nextAfterId of the previous call, to continue (optional)
+   * @returns JSON response with queued and skipped counts and nextAfterId (202)
+   */
+  public replayEvents = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const filters = this.parseFilters(req.body);
+
+      logger.info('Replaying webhook events', { filters, force: req.body.force === true });
+
+      const result = await this.eventService.replayEvents(
+        filters,
+        {
+          force: req.body.force === true,
+          limit: req.body.limit ?? DEFAULT_REPLAY_LIMIT,
+          afterId: req.body.afterId,
+        },
+        res.locals.requestId
+      );
+
+      res.status(202).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Reads event filters from a query string or request body.
+   * @private
+   */
+  private parseFilters(input: Record<string, any>): WebhookEventFilters {
+    return {
+      source: input.source as string | undefined,
+      eventId: input.eventId as string | undefined,
+      type: input.type as string | undefined,
+      status: input.status as WebhookEventStatus | undefined,
+      from: input.from ? new Date(input.from as string) : undefined,
+      to: input.to ? new Date(input.to as string) : undefined,
+    };
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Webhook Subscription Controller
+ * 
+ * Handles HTTP requests for outbound webhooks:
+ * - Register, list and delete subscriptions
+ * - Inspect and replay dead-lettered deliveries
+ * 
+ * @module controllers/webhookSubscription.controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { WebhookSubscriptionService } from '../services/webhookSubscription.service';
+import { WebhookDeliveryService } from '../services/webhookDelivery.service';
+import {
+  CreateWebhookSubscriptionInput,
+  WebhookDeadLetterQuery,
+} from '../types/webhook.types';
+import { logger } from '../utils/logger';
+
+/** Default number of dead letters listed */
+const DEFAULT_DEAD_LETTER_LIMIT = 50;
+
+/**
+ * Controller for webhook subscription endpoints.
+ * 
+ * @class WebhookSubscriptionController
+ */
+export class WebhookSubscriptionController {
+  private readonly subscriptionService: WebhookSubscriptionService;
+  private readonly deliveryService: WebhookDeliveryService;
+
+  constructor() {
+    this.subscriptionService = new WebhookSubscriptionService();
+    this.deliveryService = new WebhookDeliveryService();
+  }
+
+  /**
+   * Registers a subscription.
+   * 
+   * @route POST /api/v1/webhooks/subscriptions
+   * @body url - Receiver URL (http or https)
+   * @body eventTypes - Events to receive (product.created, product.updated, product.deleted)
+   * @body secret - HMAC secret used to sign deliveries
+   * @returns JSON response with the subscription, without its secret (201)
+   */
+  public createSubscription = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const input: CreateWebhookSubscriptionInput = {
+        url: req.body.url,
+        eventTypes: req.body.eventTypes,
+        secret: req.body.secret,
+      };
+
+      logger.info('Creating webhook subscription', { url: input.url });
+
+      const subscription = await this.subscriptionService.createSubscription(input);
+
+      res.status(201)
+        .setHeader('Location', `${req.baseUrl}/subscriptions/${subscription.id}`)
+        .json({
+          success: true,
+          data: subscription,
+        });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Lists subscriptions.
+   * 
+   * @route GET /api/v1/webhooks/subscriptions
+   * @returns JSON response with every subscription (secrets omitted)
+   */
+  public listSubscriptions = async (
+    _req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const subscriptions = await this.subscriptionService.listSubscriptions();
+
+      res.json({
+        success: true,
+        data: subscriptions,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Retrieves a subscription.
+   * 
+   * @route GET /api/v1/webhooks/subscriptions/:id
+   * @throws {NotFoundError} If the subscription doesn't exist
+   */
+  public getSubscription = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const subscription = await this.subscriptionService.getSubscription(req.params.id);
+
+      res.json({
+        success: true,
+        data: subscription,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Deletes a subscription.
+   * 
+   * @route DELETE /api/v1/webhooks/subscriptions/:id
+   * @returns Empty response (204)
+   * @throws {NotFoundError} If the subscription doesn't exist
+   */
+  public deleteSubscription = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      await this.subscriptionService.deleteSubscription(req.params.id);
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Lists deliveries that failed every retry, newest first.
+   * 
+   * @route GET /api/v1/webhooks/dead-letters
+   * @query subscriptionId - Only this subscription's dead letters (optional)
+   * @query includeReplayed - Also list dead letters already replayed (default: false)
+   * @query limit - Maximum entries (default: 50, max: 100)
+   */
+  public listDeadLetters = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const filters: WebhookDeadLetterQuery = {
+        subscriptionId: req.query.subscriptionId as string | undefined,
+        includeReplayed: req.query.includeReplayed === 'true',
+        limit: req.query.limit
+          ? parseInt(req.query.limit as string, 10)
+          : DEFAULT_DEAD_LETTER_LIMIT,
+      };
+
+      const deadLetters = await this.deliveryService.listDeadLetters(filters);
+
+      res.json({
+        success: true,
+        data: deadLetters,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Queues a dead-lettered event for delivery to its subscription again.
+   * 
+   * @route POST /api/v1/webhooks/dead-letters/:id/replay
+   * @returns JSON response (202) with the dead letter, marked as replayed
+   * @throws {NotFoundError} If the dead letter doesn't exist
+   * @throws {ConflictError} If it was already replayed or its subscription was deleted
+   */
+  public replayDeadLetter = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const id = parseInt(req.params.id, 10);
+
+      logger.info('Replaying dead letter', { id });
+
+      const deadLetter = await this.deliveryService.replayDeadLetter(id);
+
+      res.status(202).json({
+        success: true,
+        message: 'Event queued for delivery',
+        data: deadLetter,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
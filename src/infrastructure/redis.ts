@@ -150,6 +150,79 @@ export const cacheSet = async (
   }
 };
 
+/**
+ * Stores a value only if the key does not exist yet (atomic SET NX EX).
+ *
+ * @param key - Cache key (without prefix)
+ * @param value - Value to store
+ * @param ttl - Time-to-live in seconds
+ * @returns Promise resolving to true if the value was stored, false if the key existed
+ *
+ * @remarks
+ * Unlike acquireLock, the key lives in the cache namespace and the value
+ * can be read back with cacheGet (e.g. to tell a claim from a result).
+ */
+export const cacheSetIfAbsent = async (
+  key: string,
+  value: string,
+  ttl: number
+): Promise<boolean> => {
+  const client = getRedisClient();
+  const prefixedKey = `${config.redis.keyPrefix}${key}`;
+
+  const result = await client.set(prefixedKey, value, {
+    NX: true,
+    EX: ttl,
+  });
+
+  return result === 'OK';
+};
+
+/**
+ * Retrieves multiple values from the cache in a single round trip.
+ * 
+ * @param keys - Cache keys (without prefix)
+ * @returns Promise resolving to values in the same order as keys (null for misses)
+ * 
+ * @example
+ * ```typescript
+ * const [a, b] = await cacheMGet(['product:1', 'product:2']);
+ * ```
+ */
+export const cacheMGet = async (keys: string[]): Promise<Array<string | null>> => {
+  if (keys.length === 0) {
+    return [];
+  }
+
+  const client = getRedisClient();
+  return await client.mGet(keys.map((key) => `${config.redis.keyPrefix}${key}`));
+};
+
+/**
+ * Stores multiple values with the same TTL in a single round trip.
+ * 
+ * @param entries - Key/value pairs (keys without prefix)
+ * @param ttl - Time-to-live in seconds
+ * @returns Promise that resolves when all values are stored
+ * 
+ * @remarks
+ * Uses a MULTI pipeline since MSET does not support expiry.
+ */
+export const cacheMSet = async (
+  entries: Array<[key: string, value: string]>,
+  ttl: number
+): Promise<void> => {
+  if (entries.length === 0) {
+    return;
+  }
+
+  const multi = getRedisClient().multi();
+  for (const [key, value] of entries) {
+    multi.setEx(`${config.redis.keyPrefix}${key}`, ttl, value);
+  }
+  await multi.exec();
+};
+
 /**
  * Deletes a key from the cache.
  * 
@@ -167,11 +240,25 @@ export const cacheDel = async (key: string): Promise<void> => {
   await client.del(prefixedKey);
 };
 
+/**
+ * Resets the time-to-live of an existing key.
+ * 
+ * @param key - Cache key (without prefix)
+ * @param ttl - New time-to-live in seconds
+ * @returns Promise resolving to true if the key existed, false otherwise
+ */
+export const cacheExpire = async (key: string, ttl: number): Promise<boolean> => {
+  const client = getRedisClient();
+  const prefixedKey = `${config.redis.keyPrefix}${key}`;
+  return await client.expire(prefixedKey, ttl);
+};
+
 /**
  * Acquires a distributed lock across all server instances.
  * 
  * @param lockKey - Lock identifier (without prefix)
  * @param ttl - Lock expiry time in seconds (prevents deadlock)
+ * @param token - Value identifying the holder (pass the same to releaseLock)
  * @returns Promise resolving to true if lock acquired, false otherwise
  * 
  * @example
@@ -191,16 +278,19 @@ export const cacheDel = async (key: string): Promise<void> => {
  * - Uses Redis SET NX (set if not exists) for atomic lock acquisition
  * - TTL prevents deadlock if process crashes while holding lock
  * - Always release lock in finally block to prevent stale locks
+ * - Pass a unique token when the holder may outlive the TTL, so its release
+ *   cannot delete a lock another instance acquired since
  */
 export const acquireLock = async (
   lockKey: string,
-  ttl: number
+  ttl: number,
+  token: string = '1'
 ): Promise<boolean> => {
   const client = getRedisClient();
   const prefixedKey = `${config.redis.keyPrefix}lock:${lockKey}`;
   
   // SET NX EX: Set if Not eXists with EXpiry
-  const result = await client.set(prefixedKey, '1', {
+  const result = await client.set(prefixedKey, token, {
     NX: true,
     EX: ttl,
   });
@@ -208,17 +298,60 @@ export const acquireLock = async (
   return result === 'OK';
 };
 
+/** Deletes a key only if it still holds the caller's value (atomic compare-and-delete) */
+const RELEASE_OWNED_LOCK_SCRIPT = `
+  if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+  end
+  return 0
+`;
+
 /**
  * Releases a distributed lock.
  * 
  * @param lockKey - Lock identifier to release (without prefix)
+ * @param token - Token passed to acquireLock; when given, the lock is only
+ * released if it still holds it
  * @returns Promise that resolves when lock is released
  * 
  * @remarks
  * Should always be called in a finally block after acquireLock
  */
-export const releaseLock = async (lockKey: string): Promise<void> => {
+export const releaseLock = async (lockKey: string, token?: string): Promise<void> => {
   const client = getRedisClient();
   const prefixedKey = `${config.redis.keyPrefix}lock:${lockKey}`;
-  await client.del(prefixedKey);
+
+  if (token === undefined) {
+    await client.del(prefixedKey);
+    return;
+  }
+
+  await client.eval(RELEASE_OWNED_LOCK_SCRIPT, { keys: [prefixedKey], arguments: [token] });
+};
+
+/**
+ * Deletes every cache key matching a glob-style pattern.
+ * 
+ * @param pattern - Key pattern to match (without prefix), e.g. 'products:*'
+ * @returns Promise resolving to the number of keys deleted
+ * 
+ * @example
+ * ```typescript
+ * await cacheDelPattern('products:*');
+ * ```
+ * 
+ * @remarks
+ * - Uses SCAN instead of KEYS so Redis is never blocked on large keyspaces
+ * - Pattern is automatically prefixed with config.redis.keyPrefix
+ */
+export const cacheDelPattern = async (pattern: string): Promise<number> => {
+  const client = getRedisClient();
+  const prefixedPattern = `${config.redis.keyPrefix}${pattern}`;
+  let deleted = 0;
+
+  for await (const key of client.scanIterator({ MATCH: prefixedPattern, COUNT: 100 })) {
+    deleted += await client.del(key);
+  }
+
+  return deleted;
 };
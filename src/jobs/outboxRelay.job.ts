@@ -0,0 +1,110 @@
+/**
+ * Outbox Relay Job
+ * 
+ * Periodically drains the transactional outbox and, about once an hour,
+ * deletes dispatched events past their retention.
+ * 
+ * @module jobs/outboxRelay.job
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { acquireLock, releaseLock } from '../infrastructure/redis';
+import { OutboxRelayService } from '../services/outboxRelay.service';
+import { logger } from '../utils/logger';
+
+/** Distributed lock key ensuring a single instance drains at a time */
+const RELAY_LOCK_KEY = 'outbox-relay';
+
+/** Lock TTL in seconds (bounds a crashed run) */
+const RELAY_LOCK_TTL = 300;
+
+/** Time a run may start relaying events, leaving the rest of the TTL for the last one */
+const RELAY_RUN_BUDGET_MS = 240000;
+
+/** Minimum time between cleanups of dispatched events (1 hour) */
+const CLEANUP_INTERVAL_MS = 3600000;
+
+/** Active interval timer (singleton pattern) */
+let relayTimer: NodeJS.Timeout | null = null;
+
+/** Whether a run is in progress on this instance (ticks never overlap) */
+let relayRunning = false;
+
+/** When dispatched events were last cleaned up */
+let lastCleanupAt = 0;
+
+/**
+ * Runs one relay pass if no other instance is currently draining.
+ * 
+ * @returns Promise resolving to the number of events dispatched (0 if skipped)
+ */
+export const runOutboxRelay = async (): Promise<number> => {
+  if (relayRunning) {
+    return 0;
+  }
+
+  // Identifies this run's lock, so releasing it never frees another instance's
+  const lockToken = uuidv4();
+  const lockAcquired = await acquireLock(RELAY_LOCK_KEY, RELAY_LOCK_TTL, lockToken);
+  if (!lockAcquired) {
+    logger.debug('Outbox relay already running on another instance');
+    return 0;
+  }
+
+  relayRunning = true;
+  try {
+    const deadline = Date.now() + RELAY_RUN_BUDGET_MS;
+    const service = new OutboxRelayService();
+    const dispatched = await service.drain(deadline);
+
+    if (Date.now() < deadline && Date.now() - lastCleanupAt >= CLEANUP_INTERVAL_MS) {
+      lastCleanupAt = Date.now();
+      const deleted = await service.purgeDispatched();
+      if (deleted > 0) {
+        logger.info('Dispatched outbox events deleted', { deleted });
+      }
+    }
+
+    return dispatched;
+  } finally {
+    relayRunning = false;
+    await releaseLock(RELAY_LOCK_KEY, lockToken);
+  }
+};
+
+/**
+ * Starts the recurring relay job.
+ * 
+ * @remarks
+ * Errors are logged and never crash the process; the next tick retries.
+ */
+export const startOutboxRelayJob = (): void => {
+  if (relayTimer) {
+    return;
+  }
+
+  relayTimer = setInterval(() => {
+    runOutboxRelay().catch((error) => {
+      logger.error('Outbox relay failed', { error });
+    });
+  }, config.outbox.relayIntervalMs);
+
+  // Never keep the process alive just for the relay timer
+  relayTimer.unref();
+
+  logger.info('Outbox relay job started', {
+    intervalMs: config.outbox.relayIntervalMs,
+  });
+};
+
+/**
+ * Stops the recurring relay job.
+ */
+export const stopOutboxRelayJob = (): void => {
+  if (relayTimer) {
+    clearInterval(relayTimer);
+    relayTimer = null;
+    logger.info('Outbox relay job stopped');
+  }
+};
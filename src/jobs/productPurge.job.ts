@@ -0,0 +1,78 @@
+/**
+ * Scheduled Purge of Soft-Deleted Products
+ * 
+ * Periodically hard-deletes products whose deleted_at is older than
+ * the configured retention period.
+ * 
+ * @module jobs/productPurge.job
+ */
+
+import { config } from '../config';
+import { acquireLock, releaseLock } from '../infrastructure/redis';
+import { ProductService } from '../services/product.service';
+import { logger } from '../utils/logger';
+
+/** Distributed lock key ensuring a single instance purges at a time */
+const PURGE_LOCK_KEY = 'product-purge';
+
+/** Lock TTL in seconds (bounds a crashed run) */
+const PURGE_LOCK_TTL = 300;
+
+/** Active interval timer (singleton pattern) */
+let purgeTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Runs one purge pass if no other instance is currently purging.
+ * 
+ * @returns Promise resolving to the number of rows purged (0 if skipped)
+ */
+export const runProductPurge = async (): Promise<number> => {
+  const lockAcquired = await acquireLock(PURGE_LOCK_KEY, PURGE_LOCK_TTL);
+  if (!lockAcquired) {
+    logger.debug('Product purge already running on another instance');
+    return 0;
+  }
+
+  try {
+    return await new ProductService().purgeDeletedProducts();
+  } finally {
+    await releaseLock(PURGE_LOCK_KEY);
+  }
+};
+
+/**
+ * Starts the recurring purge job.
+ * 
+ * @remarks
+ * Errors are logged and never crash the process; the next tick retries.
+ */
+export const startProductPurgeJob = (): void => {
+  if (purgeTimer) {
+    return;
+  }
+
+  purgeTimer = setInterval(() => {
+    runProductPurge().catch((error) => {
+      logger.error('Product purge failed', { error });
+    });
+  }, config.products.purgeIntervalMs);
+
+  // Never keep the process alive just for the purge timer
+  purgeTimer.unref();
+
+  logger.info('Product purge job started', {
+    intervalMs: config.products.purgeIntervalMs,
+    retentionDays: config.products.deletedRetentionDays,
+  });
+};
+
+/**
+ * Stops the recurring purge job.
+ */
+export const stopProductPurgeJob = (): void => {
+  if (purgeTimer) {
+    clearInterval(purgeTimer);
+    purgeTimer = null;
+    logger.info('Product purge job stopped');
+  }
+};
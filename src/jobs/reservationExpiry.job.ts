@@ -0,0 +1,77 @@
+/**
+ * Scheduled Expiry of Stock Reservations
+ * 
+ * Periodically releases reservations that were not committed before
+ * their expiry and returns the held stock.
+ * 
+ * @module jobs/reservationExpiry.job
+ */
+
+import { config } from '../config';
+import { acquireLock, releaseLock } from '../infrastructure/redis';
+import { ProductReservationService } from '../services/productReservation.service';
+import { logger } from '../utils/logger';
+
+/** Distributed lock key ensuring a single instance sweeps at a time */
+const EXPIRY_LOCK_KEY = 'reservation-expiry';
+
+/** Lock TTL in seconds (bounds a crashed run) */
+const EXPIRY_LOCK_TTL = 120;
+
+/** Active interval timer (singleton pattern) */
+let expiryTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Runs one expiry sweep if no other instance is currently sweeping.
+ * 
+ * @returns Promise resolving to the number of reservations expired (0 if skipped)
+ */
+export const runReservationExpiry = async (): Promise<number> => {
+  const lockAcquired = await acquireLock(EXPIRY_LOCK_KEY, EXPIRY_LOCK_TTL);
+  if (!lockAcquired) {
+    logger.debug('Reservation expiry already running on another instance');
+    return 0;
+  }
+
+  try {
+    return await new ProductReservationService().expireReservations();
+  } finally {
+    await releaseLock(EXPIRY_LOCK_KEY);
+  }
+};
+
+/**
+ * Starts the recurring expiry job.
+ * 
+ * @remarks
+ * Errors are logged and never crash the process; the next tick retries.
+ */
+export const startReservationExpiryJob = (): void => {
+  if (expiryTimer) {
+    return;
+  }
+
+  expiryTimer = setInterval(() => {
+    runReservationExpiry().catch((error) => {
+      logger.error('Reservation expiry failed', { error });
+    });
+  }, config.reservations.expiryIntervalMs);
+
+  // Never keep the process alive just for the expiry timer
+  expiryTimer.unref();
+
+  logger.info('Reservation expiry job started', {
+    intervalMs: config.reservations.expiryIntervalMs,
+  });
+};
+
+/**
+ * Stops the recurring expiry job.
+ */
+export const stopReservationExpiryJob = (): void => {
+  if (expiryTimer) {
+    clearInterval(expiryTimer);
+    expiryTimer = null;
+    logger.info('Reservation expiry job stopped');
+  }
+};
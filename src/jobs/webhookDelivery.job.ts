@@ -0,0 +1,90 @@
+/**
+ * Outbound Webhook Delivery Job
+ *
+ * Polls the stored deliveries and sends due subscriber webhooks and
+ * low-stock alerts. Every instance runs a worker; about once an hour it
+ * also deletes finished deliveries past their retention.
+ *
+ * @module jobs/webhookDelivery.job
+ */
+
+import { config } from '../config';
+import { WebhookDeliveryService } from '../services/webhookDelivery.service';
+import { logger } from '../utils/logger';
+
+/** Minimum time between cleanups of finished deliveries (1 hour) */
+const CLEANUP_INTERVAL_MS = 3600000;
+
+/** Active interval timer (singleton pattern) */
+let deliveryTimer: NodeJS.Timeout | null = null;
+
+/** Whether a run is in progress on this instance (ticks never overlap) */
+let deliveryRunning = false;
+
+/** When finished deliveries were last cleaned up */
+let lastCleanupAt = 0;
+
+/**
+ * Runs one worker pass over a batch of queued deliveries.
+ *
+ * @returns Promise resolving to the number of deliveries attempted (0 if a pass is already running)
+ */
+export const runWebhookDelivery = async (): Promise<number> => {
+  if (deliveryRunning) {
+    return 0;
+  }
+
+  deliveryRunning = true;
+  try {
+    const service = new WebhookDeliveryService();
+    const attempted = await service.drainQueue();
+
+    if (Date.now() - lastCleanupAt >= CLEANUP_INTERVAL_MS) {
+      lastCleanupAt = Date.now();
+      const deleted = await service.purgeFinished();
+      if (deleted > 0) {
+        logger.info('Finished webhook deliveries deleted', { deleted });
+      }
+    }
+
+    return attempted;
+  } finally {
+    deliveryRunning = false;
+  }
+};
+
+/**
+ * Starts the recurring delivery worker.
+ *
+ * @remarks
+ * Errors are logged and never crash the process; the next tick retries.
+ */
+export const startWebhookDeliveryJob = (): void => {
+  if (deliveryTimer) {
+    return;
+  }
+
+  deliveryTimer = setInterval(() => {
+    runWebhookDelivery().catch((error) => {
+      logger.error('Webhook delivery worker failed', { error });
+    });
+  }, config.webhookDelivery.pollIntervalMs);
+
+  // Never keep the process alive just for the worker timer
+  deliveryTimer.unref();
+
+  logger.info('Webhook delivery job started', {
+    intervalMs: config.webhookDelivery.pollIntervalMs,
+  });
+};
+
+/**
+ * Stops the recurring delivery worker.
+ */
+export const stopWebhookDeliveryJob = (): void => {
+  if (deliveryTimer) {
+    clearInterval(deliveryTimer);
+    deliveryTimer = null;
+    logger.info('Webhook delivery job stopped');
+  }
+};
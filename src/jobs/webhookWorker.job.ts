@@ -0,0 +1,109 @@
+/**
+ * Incoming Webhook Worker Job
+ * 
+ * Polls the webhook job queue and processes queued events. Every instance
+ * runs a worker; about once a minute one of them also requeues stored
+ * events whose job was lost.
+ * 
+ * @module jobs/webhookWorker.job
+ */
+
+import { config } from '../config';
+import { acquireLock, releaseLock } from '../infrastructure/redis';
+import { WebhookWorkerService } from '../services/webhookWorker.service';
+import { logger } from '../utils/logger';
+
+/** Distributed lock key ensuring a single instance requeues stale events at a time */
+const REQUEUE_LOCK_KEY = 'webhook-requeue';
+
+/** Lock TTL in seconds (bounds a crashed run) */
+const REQUEUE_LOCK_TTL = 60;
+
+/** Minimum time between stale-event sweeps (1 minute) */
+const REQUEUE_INTERVAL_MS = 60000;
+
+/** Active interval timer (singleton pattern) */
+let workerTimer: NodeJS.Timeout | null = null;
+
+/** Whether a run is in progress on this instance (ticks never overlap) */
+let workerRunning = false;
+
+/** When this instance last swept for stale events */
+let lastRequeueAt = 0;
+
+/**
+ * Runs one worker pass: a batch of queued jobs, plus the stale-event sweep when due.
+ * 
+ * @returns Promise resolving to the number of jobs run (0 if a pass is already running)
+ */
+export const runWebhookWorker = async (): Promise<number> => {
+  if (workerRunning) {
+    return 0;
+  }
+
+  workerRunning = true;
+  try {
+    const service = new WebhookWorkerService();
+
+    if (Date.now() - lastRequeueAt >= REQUEUE_INTERVAL_MS) {
+      lastRequeueAt = Date.now();
+      await requeueStaleEvents(service);
+    }
+
+    return await service.drain();
+  } finally {
+    workerRunning = false;
+  }
+};
+
+/**
+ * Requeues stale events if no other instance is currently doing so.
+ */
+const requeueStaleEvents = async (service: WebhookWorkerService): Promise<void> => {
+  const lockAcquired = await acquireLock(REQUEUE_LOCK_KEY, REQUEUE_LOCK_TTL);
+  if (!lockAcquired) {
+    return;
+  }
+
+  try {
+    await service.requeueStale();
+  } finally {
+    await releaseLock(REQUEUE_LOCK_KEY);
+  }
+};
+
+/**
+ * Starts the recurring worker.
+ * 
+ * @remarks
+ * Errors are logged and never crash the process; the next tick retries.
+ */
+export const startWebhookWorkerJob = (): void => {
+  if (workerTimer) {
+    return;
+  }
+
+  workerTimer = setInterval(() => {
+    runWebhookWorker().catch((error) => {
+      logger.error('Webhook worker failed', { error });
+    });
+  }, config.webhookQueue.pollIntervalMs);
+
+  // Never keep the process alive just for the worker timer
+  workerTimer.unref();
+
+  logger.info('Webhook worker job started', {
+    intervalMs: config.webhookQueue.pollIntervalMs,
+  });
+};
+
+/**
+ * Stops the recurring worker.
+ */
+export const stopWebhookWorkerJob = (): void => {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+    logger.info('Webhook worker job stopped');
+  }
+};
@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { config } from '../config';
+import { ForbiddenError, UnauthorizedError } from '../types/errors';
+
+/**
+ * Check whether the request carries a valid admin API key
+ */
+export const isAdminRequest = (req: Request): boolean => {
+  const provided = req.get('x-admin-key');
+  if (!provided || !config.admin.apiKey) {
+    return false;
+  }
+
+  const expected = Buffer.from(config.admin.apiKey);
+  const actual = Buffer.from(provided);
+
+  // timingSafeEqual throws on length mismatch
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+/**
+ * Middleware restricting a route to admin callers (X-Admin-Key header)
+ */
+export const requireAdmin = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  void res;
+  if (!req.get('x-admin-key')) {
+    return next(new UnauthorizedError('Admin API key required'));
+  }
+
+  if (!isAdminRequest(req)) {
+    return next(new ForbiddenError('Invalid admin API key'));
+  }
+
+  next();
+};
@@ -0,0 +1,28 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { Request } from 'express';
+
+/** Request whose body was kept exactly as received */
+interface RawBodyRequest extends IncomingMessage {
+  rawBody?: Buffer;
+}
+
+/**
+ * Body parser `verify` hook keeping the unparsed body for signature checks
+ *
+ * Only mount it on routes that need it - large bodies are held twice.
+ */
+export const captureRawBody = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  buf: Buffer
+): void => {
+  void res;
+  (req as RawBodyRequest).rawBody = buf;
+};
+
+/**
+ * Get the body as received, or undefined if it was not captured
+ */
+export const getRawBody = (req: Request): Buffer | undefined => {
+  return (req as RawBodyRequest).rawBody;
+};
@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditContext } from '../types/productAudit.types';
+import { isAdminRequest } from './adminAuth';
+
+/** Incoming request ids are accepted only if they look like an id (no log injection) */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,100}$/;
+
+/** Maximum length of a recorded actor (matches product_audit.actor) */
+const MAX_ACTOR_LENGTH = 255;
+
+/** Actor recorded for requests without admin credentials */
+const ANONYMOUS_ACTOR = 'anonymous';
+
+/** Actor recorded for admin requests (suffixed with X-Actor when given) */
+const ADMIN_ACTOR = 'admin';
+
+/**
+ * Assign every request an id (X-Request-Id is honoured when valid) and echo it back
+ */
+export const requestContext = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const incoming = req.get('x-request-id');
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : uuidv4();
+
+  res.locals.requestId = requestId;
+  res.setHeader('X-Request-Id', requestId);
+
+  next();
+};
+
+/**
+ * Build the audit context for a write request
+ *
+ * Only admin callers (authenticated by X-Admin-Key) may name themselves in
+ * the X-Actor header; they are recorded as `admin:<actor>`, or `admin`
+ * without one. Everyone else is recorded as `anonymous` - an unauthenticated
+ * header cannot be trusted in the audit trail.
+ */
+export const getAuditContext = (req: Request, res: Response): AuditContext => {
+  const requestId = res.locals.requestId ?? uuidv4();
+
+  if (!isAdminRequest(req)) {
+    return { actor: ANONYMOUS_ACTOR, requestId };
+  }
+
+  const actor = (req.get('x-actor') ?? '').trim();
+  return {
+    actor: (actor ? `${ADMIN_ACTOR}:${actor}` : ADMIN_ACTOR).slice(0, MAX_ACTOR_LENGTH),
+    requestId,
+  };
+};
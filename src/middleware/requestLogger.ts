@@ -10,6 +10,7 @@ export const requestLogger = (
 
   // Log request
   logger.info('Incoming request', {
+    requestId: res.locals.requestId,
     method: req.method,
     path: req.path,
     query: req.query,
@@ -21,6 +22,7 @@ export const requestLogger = (
   res.on('finish', () => {
     const duration = Date.now() - start;
     logger.info('Outgoing response', {
+      requestId: res.locals.requestId,
       method: req.method,
       path: req.path,
       statusCode: res.statusCode,
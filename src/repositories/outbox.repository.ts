@@ -0,0 +1,112 @@
+/**
+ * Transactional Outbox Data Access Layer
+ * 
+ * Events are appended on the connection of the write they describe and
+ * drained in id order by the relay.
+ * 
+ * @module repositories/outbox.repository
+ */
+
+import { PoolConnection, ResultSetHeader } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../infrastructure/database';
+import { NewOutboxEvent, OutboxEvent } from '../types/outbox.types';
+
+/**
+ * Repository for outbox events.
+ * 
+ * @class OutboxRepository
+ */
+export class OutboxRepository {
+  /**
+   * Appends events.
+   * 
+   * @param connection - Transaction connection of the change
+   * @param events - Events to append (ids assigned here)
+   */
+  public async append(connection: PoolConnection, events: NewOutboxEvent<unknown>[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    const sql = `
+      INSERT INTO outbox (event_id, aggregate_type, aggregate_id, event_type, payload)
+      VALUES ${events.map(() => '(?, ?, ?, ?, ?)').join(', ')}
+    `;
+
+    const params = events.flatMap((event) => [
+      uuidv4(),
+      event.aggregateType,
+      event.aggregateId,
+      event.eventType,
+      JSON.stringify(event.payload),
+    ]);
+
+    await connection.execute(sql, params);
+  }
+
+  /**
+   * Lists undispatched events in relay order.
+   * @param limit - Maximum events returned
+   */
+  public async findPending(limit: number): Promise<OutboxEvent<unknown>[]> {
+    return await query<OutboxEvent<unknown>[]>(
+      `SELECT
+        id,
+        event_id as eventId,
+        aggregate_type as aggregateType,
+        aggregate_id as aggregateId,
+        event_type as eventType,
+        payload,
+        attempts,
+        last_error as lastError,
+        created_at as createdAt,
+        dispatched_at as dispatchedAt
+      FROM outbox
+      WHERE dispatched_at IS NULL
+      ORDER BY id ASC
+      LIMIT ${limit}`
+    );
+  }
+
+  /**
+   * Marks an event as dispatched.
+   * @param id - Outbox row ID
+   */
+  public async markDispatched(id: number): Promise<void> {
+    await query<ResultSetHeader>(
+      'UPDATE outbox SET dispatched_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [id]
+    );
+  }
+
+  /**
+   * Records a failed relay attempt; the event stays pending.
+   * @param id - Outbox row ID
+   * @param error - Failure reason
+   */
+  public async recordFailure(id: number, error: string): Promise<void> {
+    await query<ResultSetHeader>(
+      'UPDATE outbox SET attempts = attempts + 1, last_error = ? WHERE id = ?',
+      [error, id]
+    );
+  }
+
+  /**
+   * Deletes dispatched events older than the retention period.
+   * 
+   * @param retentionDays - Minimum age of dispatch before a row is deleted
+   * @param batchSize - Maximum rows deleted by this call
+   * @returns Promise resolving to the number of rows deleted
+   */
+  public async deleteDispatched(retentionDays: number, batchSize: number): Promise<number> {
+    const result = await query<ResultSetHeader>(
+      `DELETE FROM outbox
+       WHERE dispatched_at IS NOT NULL
+         AND dispatched_at < CURRENT_TIMESTAMP - INTERVAL ? DAY
+       LIMIT ${batchSize}`,
+      [retentionDays]
+    );
+    return result.affectedRows;
+  }
+}
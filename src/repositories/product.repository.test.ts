@@ -0,0 +1,77 @@
+import { PoolConnection } from 'mysql2/promise';
+import { ProductRepository, normalizeSearchTerm } from './product.repository';
+
+jest.mock('../infrastructure/database', () => ({ query: jest.fn() }));
+
+describe('ProductRepository.upsertMany', () => {
+  const repository = new ProductRepository();
+
+  const run = async (...products: Parameters<ProductRepository['upsertMany']>[1]) => {
+    const execute = jest.fn().mockResolvedValue([{ affectedRows: products.length }]);
+    await repository.upsertMany({ execute } as unknown as PoolConnection, products);
+    return execute.mock.calls.map(([sql, params]) => ({
+      sql: (sql as string).replace(/\s+/g, ' '),
+      params,
+    }));
+  };
+
+  it('only writes the columns a row provides', async () => {
+    const [statement] = await run({ id: 'p1', name: 'Chair', price: 10 });
+
+    expect(statement.sql).toContain('INSERT INTO products (id, name, price) VALUES (?, ?, ?)');
+    expect(statement.sql).toContain('ON DUPLICATE KEY UPDATE name = incoming.name, price = incoming.price, version = version + 1');
+    expect(statement.sql).not.toMatch(/stock|description|category/);
+    expect(statement.params).toEqual(['p1', 'Chair', 10]);
+  });
+
+  it('clears a column given as null', async () => {
+    const [statement] = await run({ id: 'p1', name: 'Chair', price: 10, description: null });
+
+    expect(statement.sql).toContain('description = incoming.description');
+    expect(statement.params).toEqual(['p1', 'Chair', null, 10]);
+  });
+
+  it('batches consecutive rows providing the same columns and keeps row order', async () => {
+    const statements = await run(
+      { id: 'p1', name: 'Chair', price: 10 },
+      { id: 'p2', name: 'Desk', price: 20 },
+      { id: 'p1', name: 'Chair', price: 12, stock: 5 },
+      { id: 'p3', name: 'Lamp', price: 5 }
+    );
+
+    expect(statements.map((statement) => statement.params)).toEqual([
+      ['p1', 'Chair', 10, 'p2', 'Desk', 20],
+      ['p1', 'Chair', 12, 5],
+      ['p3', 'Lamp', 5],
+    ]);
+    expect(statements[1].sql).toContain('stock = incoming.stock');
+  });
+});
+
+describe('normalizeSearchTerm', () => {
+  it.each([
+    ['+oak -pine', '+oak -pine'],
+    ['"oak desk" chair*', '"oak desk" chair*'],
+    ['(oak pine) desk', '(oak pine) desk'],
+    ['  oak \t\n desk  ', 'oak desk'],
+    ['Küchenstuhl 2000', 'Küchenstuhl 2000'],
+  ])('keeps the boolean-mode term %j', (search, expected) => {
+    expect(normalizeSearchTerm(search)).toBe(expected);
+  });
+
+  it.each([
+    ['an unbalanced quote', '"oak desk', 'oak desk'],
+    ['an unbalanced parenthesis', '(oak pine desk', 'oak pine desk'],
+    ['a stray closing parenthesis', 'oak) pine', 'oak pine'],
+    ['characters InnoDB rejects', 'oak@desk; {pine}', 'oak desk pine'],
+  ])('drops %s instead of failing the query', (_label, search, expected) => {
+    expect(normalizeSearchTerm(search)).toBe(expected);
+  });
+
+  it.each(['', '   ', '+-*', '"" ()', '~<>', undefined, null, 42, ['oak']])(
+    'treats %j as no search',
+    (search) => {
+      expect(normalizeSearchTerm(search)).toBeUndefined();
+    }
+  );
+});
@@ -5,13 +5,27 @@
  * - Complex query building with filters and pagination
  * - SQL injection prevention via parameterized queries
  * - Cursor-based pagination for large datasets
- * - CRUD operations
+ * - FULLTEXT search over name and description with relevance ranking
+ * - Facet aggregations (category, price and stock buckets)
+ * - CRUD operations with soft delete
  * 
  * @module repositories/product.repository
  */
 
+import { PoolConnection, ResultSetHeader } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
 import { query } from '../infrastructure/database';
-import { Product, ProductListQuery } from '../types/product.types';
+import {
+  CreateProductInput,
+  Product,
+  ProductCursor,
+  ProductFacetName,
+  ProductFacets,
+  ProductField,
+  ProductListQuery,
+  UpdateProductInput,
+  UpsertProductInput,
+} from '../types/product.types';
 import { logger } from '../utils/logger';
 
 /** Allowed sort fields (whitelist for SQL injection prevention) */
@@ -23,6 +37,24 @@ const DEFAULT_PAGE_LIMIT = 50;
 /** Default sort field */
 const DEFAULT_SORT_FIELD = 'createdAt';
 
+/** Sort fields stored as timestamps (cursor values are epoch millis) */
+const DATE_SORT_FIELDS: ReadonlyArray<string> = ['createdAt', 'updatedAt'];
+
+/** Characters allowed in boolean-mode search terms (operators, quotes, wildcards) */
+const SEARCH_DISALLOWED_CHARS = /[^\p{L}\p{N}\s+\-"*()~<>_.']/gu;
+
+/** Lower bounds of the price facet buckets (last bucket is open-ended) */
+const PRICE_FACET_BOUNDS = [0, 25, 50, 100, 250, 500, 1000] as const;
+
+/** Stock at or below this level counts as low stock in facets */
+const LOW_STOCK_FACET_LIMIT = 10;
+
+/** Maximum category buckets returned in facets */
+const CATEGORY_FACET_LIMIT = 50;
+
+/** Fields that may be written through update() (whitelist for SQL injection prevention) */
+const UPDATABLE_FIELDS = ['name', 'description', 'price', 'category', 'stock'] as const;
+
 /** Product table column mappings */
 const PRODUCT_COLUMNS = {
   id: 'id',
@@ -31,10 +63,52 @@ const PRODUCT_COLUMNS = {
   price: 'price',
   category: 'category',
   stock: 'stock',
+  version: 'version',
   createdAt: 'created_at',
   updatedAt: 'updated_at',
+  deletedAt: 'deleted_at',
 } as const;
 
+/** Fields accepted in sparse fieldsets (whitelist for SQL injection prevention) */
+export const PRODUCT_FIELDS = Object.keys(PRODUCT_COLUMNS) as ProductField[];
+
+/** Relevance of a row for a boolean-mode search term (one `?` placeholder) */
+const FULLTEXT_MATCH = `MATCH(${PRODUCT_COLUMNS.name}, ${PRODUCT_COLUMNS.description}) AGAINST (? IN BOOLEAN MODE)`;
+
+/**
+ * Normalizes a boolean-mode search term.
+ * 
+ * @param search - Raw search input
+ * @returns Sanitized term, or undefined if nothing searchable remains
+ * 
+ * @remarks
+ * Keeps boolean operators (+ - ~ < > * and parentheses) and "phrase" quotes,
+ * strips characters InnoDB rejects, and drops quotes/parentheses that are
+ * unbalanced so malformed input degrades to a plain word search instead
+ * of a syntax error. Input with no letter or digit left (only operators or
+ * punctuation) is no search at all.
+ */
+export const normalizeSearchTerm = (search?: unknown): string | undefined => {
+  if (typeof search !== 'string' || !search) {
+    return undefined;
+  }
+
+  let term = search.replace(SEARCH_DISALLOWED_CHARS, ' ');
+
+  if ((term.match(/"/g) || []).length % 2 !== 0) {
+    term = term.replace(/"/g, ' ');
+  }
+
+  const opens = (term.match(/\(/g) || []).length;
+  const closes = (term.match(/\)/g) || []).length;
+  if (opens !== closes) {
+    term = term.replace(/[()]/g, ' ');
+  }
+
+  term = term.replace(/\s+/g, ' ').trim();
+  return /[\p{L}\p{N}]/u.test(term) ? term : undefined;
+};
+
 /**
  * Repository for product database operations.
  * 
@@ -46,41 +120,68 @@ export class ProductRepository {
   /**
    * Find many products with filters, sorting, and cursor-based pagination
    * Designed for efficient querying of 1M+ records
+   * 
+   * @param queryParams - Filters, sort and page size
+   * @param cursor - Decoded cursor (already validated against the query by the service)
+   * @returns Up to limit+1 rows in scan order - for a 'prev' cursor the scan
+   * runs backwards, so callers must reverse the page
    */
-  public async findMany(queryParams: ProductListQuery): Promise<Product[]> {
+  public async findMany(queryParams: ProductListQuery, cursor?: ProductCursor): Promise<Product[]> {
     try {
       const {
-        cursor,
         limit = DEFAULT_PAGE_LIMIT,
         sortBy = 'createdAt',
         sortOrder = 'desc',
-        category,
-        search,
-        minPrice,
-        maxPrice,
       } = queryParams;
 
+      const searchTerm = normalizeSearchTerm(queryParams.search);
+
       // Validate and sanitize sortBy/sortOrder to prevent SQL injection
+      const sortByRelevance = sortBy === 'relevance' && searchTerm !== undefined;
       const validSortBy = this.validateSortField(sortBy);
-      const sortColumn = PRODUCT_COLUMNS[validSortBy as keyof typeof PRODUCT_COLUMNS];
+      const sortColumn = sortByRelevance
+        ? 'relevance'
+        : PRODUCT_COLUMNS[validSortBy as keyof typeof PRODUCT_COLUMNS];
       const validSortOrder = this.validateSortOrder(sortOrder);
 
+      // Previous-page cursors scan backwards from the boundary row
+      const scanOrder = cursor?.direction === 'prev'
+        ? (validSortOrder === 'ASC' ? 'DESC' : 'ASC')
+        : validSortOrder;
+
       // Build WHERE clause with parameterized conditions
-      const { whereClause, params } = this.buildWhereClause({
-        cursor,
-        category,
-        search,
-        minPrice,
-        maxPrice,
-      });
+      const { whereClause, params } = this.buildWhereClause(
+        queryParams,
+        cursor
+          ? {
+              cursor,
+              // WHERE cannot reference the select alias - repeat the MATCH expression
+              sortColumn: sortByRelevance ? FULLTEXT_MATCH : sortColumn,
+              sortParams: sortByRelevance ? [searchTerm] : [],
+              sortOrder: scanOrder,
+            }
+          : undefined
+      );
+
+      // Sparse fieldsets still need id and the sort value for cursors
+      const fields = queryParams.fields
+        ? [...queryParams.fields, 'id', ...(sortByRelevance ? [] : [validSortBy])] as ProductField[]
+        : undefined;
 
-      // Build the final SELECT query
-      const sql = this.buildSelectQuery(whereClause, sortColumn, validSortOrder, limit);
+      // Build the final SELECT query (search adds a relevance column)
+      const sql = this.buildSelectQuery(
+        whereClause,
+        sortColumn,
+        scanOrder,
+        limit,
+        fields,
+        searchTerm !== undefined ? `${FULLTEXT_MATCH} AS relevance` : undefined
+      );
+      const selectParams = searchTerm !== undefined ? [searchTerm] : [];
 
       logger.debug('Executing product query', { sql, params });
 
-      // TODO: Execute query with proper parameter binding
-      const results = await query<Product[]>(sql, params);
+      const results = await query<Product[]>(sql, [...selectParams, ...params]);
 
       return results;
     } catch (error) {
@@ -89,24 +190,133 @@ export class ProductRepository {
     }
   }
 
+  /**
+   * Counts products matching the list filters exactly.
+   * 
+   * @param queryParams - Filters (cursor, sort and limit are ignored)
+   * @returns Promise resolving to the number of matching rows
+   */
+  public async countMany(queryParams: ProductListQuery): Promise<number> {
+    const { whereClause, params } = this.buildWhereClause(queryParams);
+    const results = await query<Array<{ total: number }>>(
+      `SELECT COUNT(*) AS total FROM products ${whereClause}`,
+      params
+    );
+    return Number(results[0]?.total ?? 0);
+  }
+
+  /**
+   * Estimates how many products match the list filters from index statistics.
+   * 
+   * @param queryParams - Filters (cursor, sort and limit are ignored)
+   * @returns Promise resolving to the optimizer's row estimate
+   * 
+   * @remarks
+   * Uses EXPLAIN, which reads table/index statistics without scanning rows.
+   * Accuracy depends on how recently InnoDB statistics were refreshed.
+   */
+  public async estimateCount(queryParams: ProductListQuery): Promise<number> {
+    const { whereClause, params } = this.buildWhereClause(queryParams);
+    const plan = await query<Array<{ rows: number | null; filtered: number | null }>>(
+      `EXPLAIN SELECT id FROM products ${whereClause}`,
+      params
+    );
+
+    if (plan.length === 0) {
+      return 0;
+    }
+
+    const rows = Number(plan[0].rows ?? 0);
+    const filtered = Number(plan[0].filtered ?? 100);
+    return Math.round((rows * filtered) / 100);
+  }
+
+  /**
+   * Computes facet counts over the products matching the list filters.
+   * 
+   * @param queryParams - Filters (cursor, sort and limit are ignored)
+   * @param facets - Facets to compute
+   * @returns Promise resolving to the requested facet buckets
+   * 
+   * @remarks
+   * Each facet is one GROUP BY over the same WHERE clause as the listing;
+   * facets run concurrently on separate pool connections.
+   */
+  public async findFacets(
+    queryParams: ProductListQuery,
+    facets: ProductFacetName[]
+  ): Promise<ProductFacets> {
+    const { whereClause, params } = this.buildWhereClause(queryParams);
+    const result: ProductFacets = {};
+
+    await Promise.all(facets.map(async (facet) => {
+      switch (facet) {
+        case 'category': {
+          const rows = await query<Array<{ value: string | null; count: number }>>(
+            `SELECT ${PRODUCT_COLUMNS.category} AS value, COUNT(*) AS count
+             FROM products ${whereClause}
+             GROUP BY ${PRODUCT_COLUMNS.category}
+             ORDER BY count DESC
+             LIMIT ${CATEGORY_FACET_LIMIT}`,
+            params
+          );
+          result.category = rows.map((row) => ({ value: row.value, count: Number(row.count) }));
+          break;
+        }
+        case 'price': {
+          const rows = await query<Array<{ bucket: number; count: number }>>(
+            `SELECT ${this.buildPriceBucketExpression()} AS bucket, COUNT(*) AS count
+             FROM products ${whereClause}
+             GROUP BY bucket`,
+            params
+          );
+          result.price = rows
+            .map((row) => ({
+              min: PRICE_FACET_BOUNDS[row.bucket],
+              max: PRICE_FACET_BOUNDS[row.bucket + 1] ?? null,
+              count: Number(row.count),
+            }))
+            .sort((a, b) => a.min - b.min);
+          break;
+        }
+        case 'stock': {
+          const rows = await query<Array<{ bucket: 'out_of_stock' | 'low_stock' | 'in_stock'; count: number }>>(
+            `SELECT CASE
+               WHEN ${PRODUCT_COLUMNS.stock} <= 0 THEN 'out_of_stock'
+               WHEN ${PRODUCT_COLUMNS.stock} <= ${LOW_STOCK_FACET_LIMIT} THEN 'low_stock'
+               ELSE 'in_stock'
+             END AS bucket, COUNT(*) AS count
+             FROM products ${whereClause}
+             GROUP BY bucket`,
+            params
+          );
+          result.stock = rows.map((row) => ({ bucket: row.bucket, count: Number(row.count) }));
+          break;
+        }
+      }
+    }));
+
+    return result;
+  }
+
   /**
    * Retrieves a single product by ID.
-   * \n   * @param id - Product unique identifier
+   * 
+   * @param id - Product unique identifier
+   * @param includeDeleted - Also return soft-deleted products (admin only)
+   * @param fields - Sparse fieldset to select (default: every column)
    * @returns Promise resolving to product or null if not found
    */
-  public async findById(id: string): Promise<Product | null> {
+  public async findById(
+    id: string,
+    includeDeleted: boolean = false,
+    fields?: ProductField[]
+  ): Promise<Product | null> {
     const sql = `
-      SELECT 
-        ${PRODUCT_COLUMNS.id},
-        ${PRODUCT_COLUMNS.name},
-        ${PRODUCT_COLUMNS.description},
-        ${PRODUCT_COLUMNS.price},
-        ${PRODUCT_COLUMNS.category},
-        ${PRODUCT_COLUMNS.stock},
-        ${PRODUCT_COLUMNS.createdAt} as createdAt,
-        ${PRODUCT_COLUMNS.updatedAt} as updatedAt
+      SELECT ${this.buildColumnList(fields)}
       FROM products
       WHERE id = ?
+      ${includeDeleted ? '' : `AND ${PRODUCT_COLUMNS.deletedAt} IS NULL`}
       LIMIT 1
     `;
 
@@ -114,6 +324,27 @@ export class ProductRepository {
     return results.length > 0 ? results[0] : null;
   }
 
+  /**
+   * Retrieves several products by ID in one query.
+   * 
+   * @param ids - Product unique identifiers
+   * @returns Promise resolving to the live products found (in no particular order)
+   */
+  public async findByIds(ids: string[]): Promise<Product[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const sql = `
+      SELECT ${this.buildColumnList()}
+      FROM products
+      WHERE id IN (${ids.map(() => '?').join(', ')})
+        AND ${PRODUCT_COLUMNS.deletedAt} IS NULL
+    `;
+
+    return await query<Product[]>(sql, ids);
+  }
+
   /**
    * Validates and sanitizes sort field against whitelist.
    * @private
@@ -124,6 +355,19 @@ export class ProductRepository {
       : DEFAULT_SORT_FIELD;
   }
 
+  /**
+   * Builds a CASE expression mapping price to its facet bucket index.
+   * @private
+   */
+  private buildPriceBucketExpression(): string {
+    const branches = PRICE_FACET_BOUNDS
+      .slice(1)
+      .map((upper, index) => `WHEN ${PRODUCT_COLUMNS.price} < ${upper} THEN ${index}`)
+      .join(' ');
+
+    return `CASE ${branches} ELSE ${PRICE_FACET_BOUNDS.length - 1} END`;
+  }
+
   /**
    * Validates and normalizes sort order.
    * @private
@@ -134,38 +378,68 @@ export class ProductRepository {
 
   /**
    * Builds WHERE clause with parameterized conditions.
+   * 
+   * @param filters - Result-set filters
+   * @param keyset - Cursor boundary and the scan order to page in (optional)
    * @private
    */
-  private buildWhereClause(filters: {
-    cursor?: string;
-    category?: string;
-    search?: string;
-    minPrice?: number;
-    maxPrice?: number;
-  }): { whereClause: string; params: any[] } {
+  private buildWhereClause(
+    filters: {
+      category?: string[];
+      search?: string;
+      minPrice?: number;
+      maxPrice?: number;
+      inStock?: boolean;
+      minStock?: number;
+      maxStock?: number;
+      createdAfter?: Date;
+      createdBefore?: Date;
+      updatedSince?: Date;
+      includeDeleted?: boolean;
+    },
+    keyset?: {
+      cursor: ProductCursor;
+      sortColumn: string;
+      sortParams?: any[]; // Placeholders used by sortColumn when it is an expression
+      sortOrder: 'ASC' | 'DESC';
+    }
+  ): { whereClause: string; params: any[] } {
     const conditions: string[] = [];
     const params: any[] = [];
 
-    // Cursor pagination condition
-    if (filters.cursor) {
-      const { id, timestamp } = this.decodeCursor(filters.cursor);
-      logger.debug('Decoded pagination cursor', { cursor: filters.cursor, id, timestamp });
-      
-      const cursorDate = new Date(timestamp);
-      conditions.push('(created_at < ? OR (created_at = ? AND id < ?))');
-      params.push(cursorDate, cursorDate, id);
+    // Soft-deleted rows are hidden unless explicitly requested
+    if (!filters.includeDeleted) {
+      conditions.push(`${PRODUCT_COLUMNS.deletedAt} IS NULL`);
+    }
+
+    // Keyset pagination condition on (sort column, id) in the sort direction
+    if (keyset) {
+      const { id, sortBy } = keyset.cursor;
+      const value = DATE_SORT_FIELDS.includes(sortBy)
+        ? new Date(keyset.cursor.value)
+        : keyset.cursor.value;
+      const operator = keyset.sortOrder === 'ASC' ? '>' : '<';
+
+      logger.debug('Applying pagination cursor', { sortBy, value, id });
+
+      conditions.push(
+        `(${keyset.sortColumn} ${operator} ? OR (${keyset.sortColumn} = ? AND id ${operator} ?))`
+      );
+      const sortParams = keyset.sortParams ?? [];
+      params.push(...sortParams, value, ...sortParams, value, id);
     }
 
-    // Category filter
-    if (filters.category) {
-      conditions.push('category = ?');
-      params.push(filters.category);
+    // Category filter (any of the given categories)
+    if (filters.category && filters.category.length > 0) {
+      conditions.push(`${PRODUCT_COLUMNS.category} IN (${filters.category.map(() => '?').join(', ')})`);
+      params.push(...filters.category);
     }
 
-    // Full-text search (name only for performance)
-    if (filters.search) {
-      conditions.push('name LIKE ?');
-      params.push(`%${filters.search}%`);
+    // Full-text search over name and description (uses FULLTEXT index)
+    const searchTerm = normalizeSearchTerm(filters.search);
+    if (searchTerm !== undefined) {
+      conditions.push(FULLTEXT_MATCH);
+      params.push(searchTerm);
     }
 
     // Price range filters
@@ -178,6 +452,33 @@ export class ProductRepository {
       params.push(filters.maxPrice);
     }
 
+    // Stock filters
+    if (filters.inStock !== undefined) {
+      conditions.push(filters.inStock ? 'stock > 0' : 'stock <= 0');
+    }
+    if (filters.minStock !== undefined) {
+      conditions.push('stock >= ?');
+      params.push(filters.minStock);
+    }
+    if (filters.maxStock !== undefined) {
+      conditions.push('stock <= ?');
+      params.push(filters.maxStock);
+    }
+
+    // Date range filters
+    if (filters.createdAfter) {
+      conditions.push('created_at > ?');
+      params.push(filters.createdAfter);
+    }
+    if (filters.createdBefore) {
+      conditions.push('created_at < ?');
+      params.push(filters.createdBefore);
+    }
+    if (filters.updatedSince) {
+      conditions.push('updated_at >= ?');
+      params.push(filters.updatedSince);
+    }
+
     const whereClause = conditions.length > 0 
       ? `WHERE ${conditions.join(' AND ')}` 
       : '';
@@ -193,18 +494,14 @@ export class ProductRepository {
     whereClause: string,
     sortBy: string,
     sortOrder: 'ASC' | 'DESC',
-    limit: number
+    limit: number,
+    fields?: ProductField[],
+    extraColumn?: string
   ): string {
     return `
       SELECT 
-        ${PRODUCT_COLUMNS.id},
-        ${PRODUCT_COLUMNS.name},
-        ${PRODUCT_COLUMNS.description},
-        ${PRODUCT_COLUMNS.price},
-        ${PRODUCT_COLUMNS.category},
-        ${PRODUCT_COLUMNS.stock},
-        ${PRODUCT_COLUMNS.createdAt} as createdAt,
-        ${PRODUCT_COLUMNS.updatedAt} as updatedAt
+        ${extraColumn ? `${extraColumn},` : ''}
+        ${this.buildColumnList(fields)}
       FROM products
       ${whereClause}
       ORDER BY ${sortBy} ${sortOrder}, id ${sortOrder}
@@ -212,72 +509,333 @@ export class ProductRepository {
     `.trim();
   }
 
+  /**
+   * Builds the SELECT column list, aliasing columns to Product field names.
+   * 
+   * @param fields - Sparse fieldset (default: every column)
+   * @private
+   */
+  private buildColumnList(fields?: ProductField[]): string {
+    const selected = fields
+      ? PRODUCT_FIELDS.filter((field) => fields.includes(field))
+      : PRODUCT_FIELDS;
+
+    return selected
+      .map((field) => {
+        const column = PRODUCT_COLUMNS[field];
+        return column === field ? column : `${column} as ${field}`;
+      })
+      .join(',\n        ');
+  }
+
+  /**
+   * Retrieves a product and locks its row until the transaction ends.
+   * 
+   * @param connection - Transaction connection
+   * @param id - Product unique identifier
+   * @param includeDeleted - Also return a soft-deleted product
+   * @returns Promise resolving to product or null if not found
+   * 
+   * @remarks
+   * Writes read the current state through this so the audit "before"
+   * snapshot and version checks cannot race a concurrent write.
+   */
+  public async lockById(
+    connection: PoolConnection,
+    id: string,
+    includeDeleted: boolean = false
+  ): Promise<Product | null> {
+    const sql = `
+      SELECT ${this.buildColumnList()}
+      FROM products
+      WHERE id = ?
+      ${includeDeleted ? '' : `AND ${PRODUCT_COLUMNS.deletedAt} IS NULL`}
+      LIMIT 1
+      FOR UPDATE
+    `;
+
+    const [results] = await connection.execute(sql, [id]);
+    const rows = results as Product[];
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  /**
+   * Retrieves several products (soft-deleted included) and locks their rows
+   * until the transaction ends.
+   * 
+   * @param connection - Transaction connection
+   * @param ids - Product unique identifiers
+   * @returns Promise resolving to the products found (in no particular order)
+   */
+  public async lockByIds(connection: PoolConnection, ids: string[]): Promise<Product[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const sql = `
+      SELECT ${this.buildColumnList()}
+      FROM products
+      WHERE id IN (${ids.map(() => '?').join(', ')})
+      FOR UPDATE
+    `;
+
+    const [results] = await connection.execute(sql, ids);
+    return results as Product[];
+  }
+
   /**
    * Creates a new product record.
-   * @param product - Partial product data
+   * @param connection - Transaction connection
+   * @param product - Product data to insert
    * @returns Promise resolving to created product
-   * @todo Implement INSERT query with RETURNING clause
    */
-  public async create(product: Partial<Product>): Promise<Product> {
-    void product;
-    throw new Error('create() method not yet implemented');
+  public async create(connection: PoolConnection, product: CreateProductInput): Promise<Product> {
+    const id = uuidv4();
+    const sql = `
+      INSERT INTO products (
+        ${PRODUCT_COLUMNS.id},
+        ${PRODUCT_COLUMNS.name},
+        ${PRODUCT_COLUMNS.description},
+        ${PRODUCT_COLUMNS.price},
+        ${PRODUCT_COLUMNS.category},
+        ${PRODUCT_COLUMNS.stock}
+      ) VALUES (?, ?, ?, ?, ?, ?)
+    `;
+
+    await connection.execute(sql, [
+      id,
+      product.name,
+      product.description ?? null,
+      product.price,
+      product.category ?? null,
+      product.stock ?? 0,
+    ]);
+
+    // MySQL has no RETURNING clause - read back to pick up DB defaults
+    const created = await this.lockById(connection, id);
+    if (!created) {
+      throw new Error(`Product ${id} not found after insert`);
+    }
+
+    logger.debug('Product created', { id });
+    return created;
+  }
+
+  /**
+   * Inserts or updates many products.
+   * 
+   * @param connection - Transaction connection (see infrastructure/database transaction())
+   * @param products - Rows to upsert, keyed by id
+   * @returns Promise that resolves when every statement completes
+   * 
+   * @remarks
+   * Existing rows get the fields each row provides overwritten and their
+   * version bumped; fields a row leaves undefined keep their value. Runs of
+   * consecutive rows providing the same fields share one statement, so rows
+   * are still applied in order. Soft-deleted rows are updated but stay deleted.
+   */
+  public async upsertMany(
+    connection: PoolConnection,
+    products: UpsertProductInput[]
+  ): Promise<void> {
+    let start = 0;
+
+    while (start < products.length) {
+      const fields = this.providedUpsertFields(products[start]);
+      const signature = fields.join(',');
+
+      let end = start + 1;
+      while (end < products.length && this.providedUpsertFields(products[end]).join(',') === signature) {
+        end++;
+      }
+
+      await this.upsertRows(connection, fields, products.slice(start, end));
+      start = end;
+    }
   }
 
   /**
-   * Updates an existing product.
+   * Upserts rows that all provide the same fields, in one statement.
+   * @private
+   */
+  private async upsertRows(
+    connection: PoolConnection,
+    fields: Array<typeof UPDATABLE_FIELDS[number]>,
+    products: UpsertProductInput[]
+  ): Promise<void> {
+    const columns = fields.map((field) => PRODUCT_COLUMNS[field]);
+    const placeholders = `(${['?', ...columns.map(() => '?')].join(', ')})`;
+
+    const sql = `
+      INSERT INTO products (${PRODUCT_COLUMNS.id}, ${columns.join(', ')})
+      VALUES ${products.map(() => placeholders).join(', ')}
+      AS incoming
+      ON DUPLICATE KEY UPDATE
+        ${columns.map((column) => `${column} = incoming.${column}`).join(',\n        ')},
+        ${PRODUCT_COLUMNS.version} = ${PRODUCT_COLUMNS.version} + 1
+    `;
+
+    const params = products.flatMap((product) => [
+      product.id,
+      ...fields.map((field) => product[field] ?? null),
+    ]);
+
+    await connection.execute(sql, params);
+  }
+
+  /**
+   * Lists the updatable fields an upsert row provides (name and price always).
+   * @private
+   */
+  private providedUpsertFields(product: UpsertProductInput): Array<typeof UPDATABLE_FIELDS[number]> {
+    return UPDATABLE_FIELDS.filter((field) => product[field] !== undefined);
+  }
+
+  /**
+   * Updates a live product.
+   * @param connection - Transaction connection (the caller has locked the row)
    * @param id - Product ID to update
-   * @param updates - Fields to update
-   * @returns Promise resolving to updated product
-   * @todo Implement UPDATE query with optimistic locking
+   * @param updates - Fields to update (only whitelisted columns are written)
+   * @returns Promise resolving to updated product, or null if no live row matched
    */
-  public async update(id: string, updates: Partial<Product>): Promise<Product> {
-    void id;
-    void updates;
-    throw new Error('update() method not yet implemented');
+  public async update(
+    connection: PoolConnection,
+    id: string,
+    updates: UpdateProductInput
+  ): Promise<Product | null> {
+    const { setClause, params } = this.buildSetClause(updates);
+
+    if (!setClause) {
+      return await this.lockById(connection, id);
+    }
+
+    const sql = `
+      UPDATE products
+      SET ${setClause}, ${PRODUCT_COLUMNS.version} = ${PRODUCT_COLUMNS.version} + 1
+      WHERE id = ? AND ${PRODUCT_COLUMNS.deletedAt} IS NULL
+    `;
+    const [result] = await connection.execute<ResultSetHeader>(sql, [...params, id]);
+
+    if (result.affectedRows === 0) {
+      return null;
+    }
+
+    return await this.lockById(connection, id);
   }
 
   /**
-   * Deletes a product by ID.
+   * Soft-deletes a product by stamping deleted_at.
+   * @param connection - Transaction connection
    * @param id - Product ID to delete
-   * @returns Promise that resolves when deleted
-   * @todo Implement soft delete with deleted_at timestamp
+   * @returns Promise resolving to the deleted product, or null if no live row matched
+   */
+  public async delete(connection: PoolConnection, id: string): Promise<Product | null> {
+    const sql = `
+      UPDATE products
+      SET ${PRODUCT_COLUMNS.deletedAt} = CURRENT_TIMESTAMP,
+          ${PRODUCT_COLUMNS.version} = ${PRODUCT_COLUMNS.version} + 1
+      WHERE id = ? AND ${PRODUCT_COLUMNS.deletedAt} IS NULL
+    `;
+    const [result] = await connection.execute<ResultSetHeader>(sql, [id]);
+
+    if (result.affectedRows === 0) {
+      return null;
+    }
+
+    return await this.lockById(connection, id, true);
+  }
+
+  /**
+   * Restores a soft-deleted product.
+   * @param connection - Transaction connection
+   * @param id - Product ID to restore
+   * @returns Promise resolving to restored product or null if no deleted row matched
+   */
+  public async restore(connection: PoolConnection, id: string): Promise<Product | null> {
+    const sql = `
+      UPDATE products
+      SET ${PRODUCT_COLUMNS.deletedAt} = NULL,
+          ${PRODUCT_COLUMNS.version} = ${PRODUCT_COLUMNS.version} + 1
+      WHERE id = ? AND ${PRODUCT_COLUMNS.deletedAt} IS NOT NULL
+    `;
+    const [result] = await connection.execute<ResultSetHeader>(sql, [id]);
+
+    if (result.affectedRows === 0) {
+      return null;
+    }
+
+    return await this.lockById(connection, id);
+  }
+
+  /**
+   * Atomically changes a product's stock by a delta.
+   * 
+   * @param connection - Transaction connection
+   * @param id - Product ID
+   * @param delta - Units to add (negative to decrement)
+   * @returns Promise resolving to the updated product, or null if the row is
+   * missing or the change would take stock below zero
+   * 
+   * @remarks
+   * The stock check and the write are one conditional UPDATE, so concurrent
+   * decrements can never oversell even without a prior row lock.
    */
-  public async delete(id: string): Promise<void> {
-    void id;
-    throw new Error('delete() method not yet implemented');
+  public async adjustStock(
+    connection: PoolConnection,
+    id: string,
+    delta: number
+  ): Promise<Product | null> {
+    const sql = `
+      UPDATE products
+      SET ${PRODUCT_COLUMNS.stock} = ${PRODUCT_COLUMNS.stock} + ?,
+          ${PRODUCT_COLUMNS.version} = ${PRODUCT_COLUMNS.version} + 1
+      WHERE id = ? AND ${PRODUCT_COLUMNS.stock} + ? >= 0
+    `;
+    const [result] = await connection.execute<ResultSetHeader>(sql, [delta, id, delta]);
+
+    if (result.affectedRows === 0) {
+      return null;
+    }
+
+    return await this.lockById(connection, id, true);
   }
 
   /**
-   * Decodes base64 cursor into ID and timestamp.
+   * Permanently removes products soft-deleted more than `retentionDays` ago.
    * 
-   * @param cursor - Base64-encoded cursor string
-   * @returns Decoded cursor components
-   * @private
+   * @param retentionDays - Minimum age of deletion before a row is purged
+   * @param batchSize - Maximum rows removed by this call
+   * @returns Promise resolving to the number of rows purged
    * 
    * @remarks
-   * Cursor format: base64(id:timestamp)
-   * Example: "MTIzNDU6MTcwOTEyMzQ1Njc4OQ==" -> {id: "12345", timestamp: 1709123456789}
+   * Deletes in bounded batches so a large backlog never holds long row locks.
    */
-  private decodeCursor(cursor: string): { timestamp: number; id: string } {
-    try {
-      const decoded = Buffer.from(cursor, 'base64').toString('utf-8');
-      const [id, timestampStr] = decoded.split(':');
-      
-      if (!id || !timestampStr) {
-        throw new Error('Invalid cursor format');
-      }
-      
-      const timestamp = parseInt(timestampStr, 10);
-      
-      if (isNaN(timestamp)) {
-        throw new Error('Invalid timestamp in cursor');
+  public async purgeDeleted(retentionDays: number, batchSize: number): Promise<number> {
+    const sql = `
+      DELETE FROM products
+      WHERE ${PRODUCT_COLUMNS.deletedAt} IS NOT NULL
+        AND ${PRODUCT_COLUMNS.deletedAt} < CURRENT_TIMESTAMP - INTERVAL ? DAY
+      LIMIT ${batchSize}
+    `;
+    const result = await query<ResultSetHeader>(sql, [retentionDays]);
+    return result.affectedRows;
+  }
+
+  /**
+   * Builds SET clause for updates from whitelisted fields.
+   * @private
+   */
+  private buildSetClause(updates: UpdateProductInput): { setClause: string; params: any[] } {
+    const assignments: string[] = [];
+    const params: any[] = [];
+
+    for (const field of UPDATABLE_FIELDS) {
+      if (updates[field] !== undefined) {
+        assignments.push(`${PRODUCT_COLUMNS[field]} = ?`);
+        params.push(updates[field]);
       }
-      
-      return { id, timestamp };
-    } catch (error) {
-      logger.warn('Failed to decode cursor', { cursor, error });
-      // Return safe defaults to prevent query errors
-      return { id: '', timestamp: Date.now() };
     }
+
+    return { setClause: assignments.join(', '), params };
   }
 }
@@ -0,0 +1,129 @@
+/**
+ * Product Audit Data Access Layer
+ *
+ * Persists the product change history. Entries are written on the same
+ * connection (and transaction) as the product change they describe.
+ *
+ * @module repositories/productAudit.repository
+ */
+
+import { PoolConnection } from 'mysql2/promise';
+import { query } from '../infrastructure/database';
+import { NewProductAuditEntry, ProductAuditEntry } from '../types/productAudit.types';
+
+/** Audit entry column mappings */
+const AUDIT_COLUMNS = `
+  id,
+  product_id as productId,
+  action,
+  before_state as \`before\`,
+  after_state as \`after\`,
+  actor,
+  request_id as requestId,
+  created_at as createdAt
+`;
+
+/**
+ * Repository for product audit entries.
+ *
+ * @class ProductAuditRepository
+ */
+export class ProductAuditRepository {
+  /**
+   * Appends audit entries.
+   *
+   * @param connection - Transaction connection of the product change
+   * @param entries - Entries to insert
+   */
+  public async record(connection: PoolConnection, entries: NewProductAuditEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const sql = `
+      INSERT INTO product_audit (product_id, action, before_state, after_state, actor, request_id)
+      VALUES ${entries.map(() => '(?, ?, ?, ?, ?, ?)').join(', ')}
+    `;
+
+    const params = entries.flatMap((entry) => [
+      entry.productId,
+      entry.action,
+      entry.before ? JSON.stringify(entry.before) : null,
+      entry.after ? JSON.stringify(entry.after) : null,
+      entry.actor,
+      entry.requestId,
+    ]);
+
+    await connection.execute(sql, params);
+  }
+
+  /**
+   * Retrieves a product's history, newest first.
+   *
+   * @param productId - Product unique identifier
+   * @param limit - Maximum entries returned
+   * @param beforeId - Only return entries older than this audit id (keyset cursor)
+   * @returns Promise resolving to the entries
+   */
+  public async findByProductId(
+    productId: string,
+    limit: number,
+    beforeId?: number
+  ): Promise<ProductAuditEntry[]> {
+    const params: any[] = [productId];
+    let sql = `
+      SELECT ${AUDIT_COLUMNS}
+      FROM product_audit
+      WHERE product_id = ?
+    `;
+
+    if (beforeId !== undefined) {
+      sql += ' AND id < ?';
+      params.push(beforeId);
+    }
+
+    sql += ` ORDER BY id DESC LIMIT ${limit}`;
+
+    return await query<ProductAuditEntry[]>(sql, params);
+  }
+
+  /**
+   * Retrieves the last entry recorded at or before a point in time.
+   *
+   * @param productId - Product unique identifier
+   * @param at - Point in time
+   * @returns Promise resolving to the entry, or null if the history starts later
+   */
+  public async findLatestAt(productId: string, at: Date): Promise<ProductAuditEntry | null> {
+    const results = await query<ProductAuditEntry[]>(
+      `SELECT ${AUDIT_COLUMNS}
+      FROM product_audit
+      WHERE product_id = ? AND created_at <= ?
+      ORDER BY created_at DESC, id DESC
+      LIMIT 1`,
+      [productId, at]
+    );
+
+    return results.length > 0 ? results[0] : null;
+  }
+
+  /**
+   * Retrieves the first entry recorded after a point in time.
+   *
+   * @param productId - Product unique identifier
+   * @param at - Point in time
+   * @returns Promise resolving to the entry, or null if nothing changed since
+   */
+  public async findFirstAfter(productId: string, at: Date): Promise<ProductAuditEntry | null> {
+    const results = await query<ProductAuditEntry[]>(
+      `SELECT ${AUDIT_COLUMNS}
+      FROM product_audit
+      WHERE product_id = ? AND created_at > ?
+      ORDER BY created_at ASC, id ASC
+      LIMIT 1`,
+      [productId, at]
+    );
+
+    return results.length > 0 ? results[0] : null;
+  }
+}
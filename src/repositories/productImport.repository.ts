@@ -0,0 +1,114 @@
+/**
+ * Product Import Job Data Access Layer
+ * 
+ * Persists bulk import jobs and their progress counters.
+ * 
+ * @module repositories/productImport.repository
+ */
+
+import { ResultSetHeader } from 'mysql2/promise';
+import { query } from '../infrastructure/database';
+import {
+  ProductImportFormat,
+  ProductImportJob,
+  ProductImportRowError,
+  ProductImportStatus,
+} from '../types/productImport.types';
+
+/**
+ * Repository for product import jobs.
+ * 
+ * @class ProductImportRepository
+ */
+export class ProductImportRepository {
+  /**
+   * Creates a pending import job.
+   * @param id - Job ID
+   * @param format - Input file format
+   */
+  public async create(id: string, format: ProductImportFormat): Promise<void> {
+    await query<ResultSetHeader>(
+      'INSERT INTO product_imports (id, format, status) VALUES (?, ?, ?)',
+      [id, format, 'pending']
+    );
+  }
+
+  /**
+   * Retrieves an import job by ID.
+   * @param id - Job ID
+   * @returns Promise resolving to the job or null if not found
+   */
+  public async findById(id: string): Promise<ProductImportJob | null> {
+    const results = await query<ProductImportJob[]>(
+      `SELECT
+        id,
+        format,
+        status,
+        total_rows as totalRows,
+        accepted_rows as acceptedRows,
+        rejected_rows as rejectedRows,
+        errors,
+        failure_reason as failureReason,
+        created_at as createdAt,
+        started_at as startedAt,
+        completed_at as completedAt
+      FROM product_imports
+      WHERE id = ?
+      LIMIT 1`,
+      [id]
+    );
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return { ...results[0], errors: results[0].errors ?? [] };
+  }
+
+  /**
+   * Marks a job as processing with its total row count.
+   */
+  public async markStarted(id: string, totalRows: number): Promise<void> {
+    await query<ResultSetHeader>(
+      `UPDATE product_imports
+       SET status = 'processing', total_rows = ?, started_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [totalRows, id]
+    );
+  }
+
+  /**
+   * Records progress counters and the (capped) per-row errors.
+   */
+  public async updateProgress(
+    id: string,
+    acceptedRows: number,
+    rejectedRows: number,
+    errors: ProductImportRowError[]
+  ): Promise<void> {
+    await query<ResultSetHeader>(
+      `UPDATE product_imports
+       SET accepted_rows = ?, rejected_rows = ?, errors = ?
+       WHERE id = ?`,
+      [acceptedRows, rejectedRows, JSON.stringify(errors), id]
+    );
+  }
+
+  /**
+   * Marks a job as finished.
+   * @param status - Terminal status
+   * @param failureReason - Why the whole job failed (failed status only)
+   */
+  public async markFinished(
+    id: string,
+    status: Extract<ProductImportStatus, 'completed' | 'failed'>,
+    failureReason: string | null = null
+  ): Promise<void> {
+    await query<ResultSetHeader>(
+      `UPDATE product_imports
+       SET status = ?, failure_reason = ?, completed_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [status, failureReason, id]
+    );
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Product Price History Data Access Layer
+ *
+ * Persists every price a product has had. Changes are written on the same
+ * connection (and transaction) as the product write that caused them.
+ *
+ * @module repositories/productPriceHistory.repository
+ */
+
+import { PoolConnection } from 'mysql2/promise';
+import { query } from '../infrastructure/database';
+import { ProductPriceChange } from '../types/product.types';
+import { NewProductAuditEntry } from '../types/productAudit.types';
+
+/**
+ * Repository for product price history.
+ *
+ * @class ProductPriceHistoryRepository
+ */
+export class ProductPriceHistoryRepository {
+  /**
+   * Records the price changes contained in a set of audited writes.
+   *
+   * @param connection - Transaction connection of the product write
+   * @param entries - Audit entries of the write (before/after state)
+   *
+   * @remarks
+   * Only entries whose price differs between before and after are recorded;
+   * a create always records the initial price.
+   */
+  public async recordChanges(
+    connection: PoolConnection,
+    entries: NewProductAuditEntry[]
+  ): Promise<void> {
+    // DECIMAL columns come back as strings - compare numerically
+    const changes = entries.filter(
+      (entry) => entry.after && (!entry.before || Number(entry.before.price) !== Number(entry.after.price))
+    );
+
+    if (changes.length === 0) {
+      return;
+    }
+
+    const sql = `
+      INSERT INTO product_price_history (product_id, price, previous_price, request_id)
+      VALUES ${changes.map(() => '(?, ?, ?, ?)').join(', ')}
+    `;
+
+    const params = changes.flatMap((entry) => [
+      entry.productId,
+      entry.after?.price,
+      entry.before ? entry.before.price : null,
+      entry.requestId,
+    ]);
+
+    await connection.execute(sql, params);
+  }
+
+  /**
+   * Retrieves a product's price changes, oldest first.
+   *
+   * @param productId - Product unique identifier
+   * @param from - Only changes at or after this time (optional)
+   * @param to - Only changes at or before this time (optional)
+   * @returns Promise resolving to the changes in the range
+   */
+  public async findByProductId(
+    productId: string,
+    from?: Date,
+    to?: Date
+  ): Promise<ProductPriceChange[]> {
+    const conditions = ['product_id = ?'];
+    const params: any[] = [productId];
+
+    if (from) {
+      conditions.push('changed_at >= ?');
+      params.push(from);
+    }
+
+    if (to) {
+      conditions.push('changed_at <= ?');
+      params.push(to);
+    }
+
+    return await query<ProductPriceChange[]>(
+      `SELECT
+        id,
+        product_id as productId,
+        price,
+        previous_price as previousPrice,
+        changed_at as changedAt,
+        request_id as requestId
+      FROM product_price_history
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY changed_at ASC, id ASC`,
+      params
+    );
+  }
+
+  /**
+   * Retrieves the price in effect at a point in time.
+   *
+   * @param productId - Product unique identifier
+   * @param at - Point in time
+   * @returns Promise resolving to the latest change at or before `at`, or null if none
+   */
+  public async findEffectiveAt(productId: string, at: Date): Promise<ProductPriceChange | null> {
+    const results = await query<ProductPriceChange[]>(
+      `SELECT
+        id,
+        product_id as productId,
+        price,
+        previous_price as previousPrice,
+        changed_at as changedAt,
+        request_id as requestId
+      FROM product_price_history
+      WHERE product_id = ? AND changed_at <= ?
+      ORDER BY changed_at DESC, id DESC
+      LIMIT 1`,
+      [productId, at]
+    );
+
+    return results.length > 0 ? results[0] : null;
+  }
+}
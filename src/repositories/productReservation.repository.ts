@@ -0,0 +1,125 @@
+/**
+ * Product Reservation Data Access Layer
+ *
+ * Persists stock reservations. Status changes are conditional UPDATEs on
+ * the current status, so each reservation finishes exactly once.
+ *
+ * @module repositories/productReservation.repository
+ */
+
+import { PoolConnection, ResultSetHeader } from 'mysql2/promise';
+import { query } from '../infrastructure/database';
+import {
+  ProductReservation,
+  ProductReservationStatus,
+} from '../types/productReservation.types';
+
+/** Reservation column mappings */
+const RESERVATION_COLUMNS = `
+  id,
+  product_id as productId,
+  quantity,
+  status,
+  expires_at as expiresAt,
+  created_at as createdAt,
+  updated_at as updatedAt
+`;
+
+/**
+ * Repository for product reservations.
+ *
+ * @class ProductReservationRepository
+ */
+export class ProductReservationRepository {
+  /**
+   * Creates an active reservation.
+   *
+   * @param connection - Transaction connection of the stock decrement
+   * @param id - Reservation ID
+   * @param productId - Reserved product
+   * @param quantity - Units held
+   * @param ttlSeconds - Seconds until the reservation expires
+   */
+  public async create(
+    connection: PoolConnection,
+    id: string,
+    productId: string,
+    quantity: number,
+    ttlSeconds: number
+  ): Promise<void> {
+    await connection.execute(
+      `INSERT INTO product_reservations (id, product_id, quantity, status, expires_at)
+       VALUES (?, ?, ?, 'active', CURRENT_TIMESTAMP + INTERVAL ? SECOND)`,
+      [id, productId, quantity, ttlSeconds]
+    );
+  }
+
+  /**
+   * Retrieves a reservation by ID.
+   * @param id - Reservation ID
+   * @returns Promise resolving to the reservation or null if not found
+   */
+  public async findById(id: string): Promise<ProductReservation | null> {
+    const results = await query<ProductReservation[]>(
+      `SELECT ${RESERVATION_COLUMNS} FROM product_reservations WHERE id = ? LIMIT 1`,
+      [id]
+    );
+    return results.length > 0 ? results[0] : null;
+  }
+
+  /**
+   * Retrieves a reservation and locks its row until the transaction ends.
+   * @param connection - Transaction connection
+   * @param id - Reservation ID
+   * @returns Promise resolving to the reservation or null if not found
+   */
+  public async lockById(connection: PoolConnection, id: string): Promise<ProductReservation | null> {
+    const [results] = await connection.execute(
+      `SELECT ${RESERVATION_COLUMNS} FROM product_reservations WHERE id = ? LIMIT 1 FOR UPDATE`,
+      [id]
+    );
+    const rows = results as ProductReservation[];
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  /**
+   * Moves an active reservation to a final status.
+   *
+   * @param connection - Transaction connection
+   * @param id - Reservation ID
+   * @param status - Final status
+   * @param requireUnexpired - Only succeed if expires_at is still in the future
+   * @returns Promise resolving to true if the reservation was active (and, when
+   * required, unexpired) and is now in `status`
+   */
+  public async finish(
+    connection: PoolConnection,
+    id: string,
+    status: Exclude<ProductReservationStatus, 'active'>,
+    requireUnexpired: boolean = false
+  ): Promise<boolean> {
+    const [result] = await connection.execute<ResultSetHeader>(
+      `UPDATE product_reservations
+       SET status = ?
+       WHERE id = ? AND status = 'active'
+       ${requireUnexpired ? 'AND expires_at > CURRENT_TIMESTAMP' : ''}`,
+      [status, id]
+    );
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * Lists active reservations past their expiry, oldest first.
+   * @param batchSize - Maximum ids returned
+   * @returns Promise resolving to reservation ids
+   */
+  public async findExpiredIds(batchSize: number): Promise<string[]> {
+    const results = await query<Array<{ id: string }>>(
+      `SELECT id FROM product_reservations
+       WHERE status = 'active' AND expires_at <= CURRENT_TIMESTAMP
+       ORDER BY expires_at ASC
+       LIMIT ${batchSize}`
+    );
+    return results.map((row) => row.id);
+  }
+}
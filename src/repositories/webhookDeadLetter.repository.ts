@@ -0,0 +1,115 @@
+/**
+ * Webhook Dead Letter Data Access Layer
+ * 
+ * Persists outbound deliveries that failed every retry.
+ * 
+ * @module repositories/webhookDeadLetter.repository
+ */
+
+import { ResultSetHeader } from 'mysql2/promise';
+import { query } from '../infrastructure/database';
+import {
+  WebhookDeadLetter,
+  WebhookDeadLetterQuery,
+  WebhookEvent,
+} from '../types/webhook.types';
+
+/** Default number of dead letters listed */
+const DEFAULT_LIST_LIMIT = 50;
+
+/** Dead letter column mappings */
+const DEAD_LETTER_COLUMNS = `
+  id,
+  subscription_id as subscriptionId,
+  event_id as eventId,
+  event_type as eventType,
+  payload,
+  attempts,
+  last_error as lastError,
+  created_at as createdAt,
+  replayed_at as replayedAt
+`;
+
+/**
+ * Repository for webhook dead letters.
+ * 
+ * @class WebhookDeadLetterRepository
+ */
+export class WebhookDeadLetterRepository {
+  /**
+   * Records a delivery that failed every retry.
+   * 
+   * @param subscriptionId - Subscription the event was for
+   * @param event - Event that could not be delivered
+   * @param attempts - Attempts made
+   * @param lastError - Error of the final attempt
+   */
+  public async create(
+    subscriptionId: string,
+    event: WebhookEvent<unknown>,
+    attempts: number,
+    lastError: string
+  ): Promise<void> {
+    await query<ResultSetHeader>(
+      `INSERT INTO webhook_dead_letters
+        (subscription_id, event_id, event_type, payload, attempts, last_error)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [subscriptionId, event.id, event.type, JSON.stringify(event), attempts, lastError]
+    );
+  }
+
+  /**
+   * Retrieves a dead letter by ID.
+   * @param id - Dead letter ID
+   * @returns Promise resolving to the dead letter or null if not found
+   */
+  public async findById(id: number): Promise<WebhookDeadLetter | null> {
+    const results = await query<WebhookDeadLetter[]>(
+      `SELECT ${DEAD_LETTER_COLUMNS} FROM webhook_dead_letters WHERE id = ? LIMIT 1`,
+      [id]
+    );
+    return results.length > 0 ? results[0] : null;
+  }
+
+  /**
+   * Lists dead letters, newest first.
+   * @param filters - Subscription, replayed flag and limit
+   */
+  public async findMany(filters: WebhookDeadLetterQuery): Promise<WebhookDeadLetter[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.subscriptionId) {
+      conditions.push('subscription_id = ?');
+      params.push(filters.subscriptionId);
+    }
+
+    if (!filters.includeReplayed) {
+      conditions.push('replayed_at IS NULL');
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    return await query<WebhookDeadLetter[]>(
+      `SELECT ${DEAD_LETTER_COLUMNS}
+       FROM webhook_dead_letters
+       ${where}
+       ORDER BY id DESC
+       LIMIT ${filters.limit || DEFAULT_LIST_LIMIT}`,
+      params
+    );
+  }
+
+  /**
+   * Marks a dead letter as replayed, keeping the time of the first replay.
+   * @param id - Dead letter ID
+   */
+  public async markReplayed(id: number): Promise<void> {
+    await query<ResultSetHeader>(
+      `UPDATE webhook_dead_letters
+       SET replayed_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND replayed_at IS NULL`,
+      [id]
+    );
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Outbound Webhook Delivery Data Access Layer
+ *
+ * Persists outbound deliveries until they are delivered or given up on.
+ * Workers claim due rows with a lease (next_attempt_at moved past the time
+ * the claim may take to send), so a delivery claimed by a worker that dies
+ * comes due again instead of being lost.
+ *
+ * @module repositories/webhookDelivery.repository
+ */
+
+import { PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { query, transaction } from '../infrastructure/database';
+import { NewWebhookDelivery, WebhookDelivery, WebhookEvent } from '../types/webhook.types';
+
+/** Delivery columns read back by workers */
+const DELIVERY_COLUMNS = `
+  id,
+  target_kind as targetKind,
+  subscription_id as subscriptionId,
+  event,
+  attempts
+`;
+
+/** Stored delivery row, before the target is rebuilt */
+interface WebhookDeliveryRow extends RowDataPacket {
+  id: number;
+  targetKind: 'subscription' | 'low_stock';
+  subscriptionId: string | null;
+  event: WebhookEvent<unknown>;
+  attempts: number;
+}
+
+/**
+ * Repository for outbound webhook deliveries.
+ *
+ * @class WebhookDeliveryRepository
+ */
+export class WebhookDeliveryRepository {
+  /**
+   * Stores deliveries, all or none.
+   *
+   * @param deliveries - Deliveries to send as soon as a worker is free
+   *
+   * @remarks
+   * One multi-row INSERT is atomic. A delivery of an event to a target that
+   * is already stored (the relay publishing an event again after a crash)
+   * is left as it is, so the event is not sent twice.
+   */
+  public async createMany(deliveries: NewWebhookDelivery[]): Promise<void> {
+    if (deliveries.length === 0) {
+      return;
+    }
+
+    const sql = `
+      INSERT INTO webhook_deliveries (event_id, target_kind, subscription_id, event)
+      VALUES ${deliveries.map(() => '(?, ?, ?, ?)').join(', ')}
+      ON DUPLICATE KEY UPDATE id = id
+    `;
+
+    const params = deliveries.flatMap(({ target, event }) => [
+      event.id,
+      target.kind,
+      target.kind === 'subscription' ? target.subscriptionId : null,
+      JSON.stringify(event),
+    ]);
+
+    await query<ResultSetHeader>(sql, params);
+  }
+
+  /**
+   * Queues a delivery again from scratch, whether or not it is still stored.
+   *
+   * @param delivery - Delivery to send as soon as a worker is free
+   *
+   * @remarks
+   * Unlike createMany, a stored delivery of the event to the same target
+   * (normally the dead one being replayed) is reset to pending with no
+   * attempts, so it gets a full set of retries.
+   */
+  public async requeue({ target, event }: NewWebhookDelivery): Promise<void> {
+    await query<ResultSetHeader>(
+      `INSERT INTO webhook_deliveries (event_id, target_kind, subscription_id, event)
+       VALUES (?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE
+         event = VALUES(event),
+         status = 'pending',
+         attempts = 0,
+         last_error = NULL,
+         next_attempt_at = CURRENT_TIMESTAMP(3)`,
+      [
+        event.id,
+        target.kind,
+        target.kind === 'subscription' ? target.subscriptionId : null,
+        JSON.stringify(event),
+      ]
+    );
+  }
+
+  /**
+   * Claims the oldest due pending deliveries.
+   *
+   * @param limit - Maximum deliveries claimed
+   * @param leaseSeconds - Time before an unfinished claim comes due again
+   * @returns Promise resolving to the claimed deliveries, attempts included
+   *
+   * @remarks
+   * SKIP LOCKED lets concurrent workers claim different rows instead of
+   * waiting on each other. The attempt is counted when claimed, so a
+   * delivery that keeps crashing its worker still runs out of attempts.
+   */
+  public async claimDue(limit: number, leaseSeconds: number): Promise<WebhookDelivery[]> {
+    return await transaction(async (connection) => {
+      const [due] = await connection.execute<RowDataPacket[]>(
+        `SELECT id
+         FROM webhook_deliveries
+         WHERE status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP(3)
+         ORDER BY id ASC
+         LIMIT ${limit}
+         FOR UPDATE SKIP LOCKED`
+      );
+
+      if (due.length === 0) {
+        return [];
+      }
+
+      const ids = due.map((row) => row.id as number);
+      const placeholders = ids.map(() => '?').join(', ');
+
+      await connection.execute(
+        `UPDATE webhook_deliveries
+         SET attempts = attempts + 1,
+             next_attempt_at = CURRENT_TIMESTAMP(3) + INTERVAL ? SECOND
+         WHERE id IN (${placeholders})`,
+        [leaseSeconds, ...ids]
+      );
+
+      return await this.findByIds(connection, ids);
+    });
+  }
+
+  /**
+   * Marks a delivery as delivered.
+   * @param id - Delivery ID
+   */
+  public async markDelivered(id: number): Promise<void> {
+    await query<ResultSetHeader>(
+      "UPDATE webhook_deliveries SET status = 'delivered', last_error = NULL WHERE id = ?",
+      [id]
+    );
+  }
+
+  /**
+   * Records a failed attempt; the delivery comes due again after the delay.
+   *
+   * @param id - Delivery ID
+   * @param delayMs - Backoff before the next attempt
+   * @param error - Failure reason
+   */
+  public async scheduleRetry(id: number, delayMs: number, error: string): Promise<void> {
+    await query<ResultSetHeader>(
+      `UPDATE webhook_deliveries
+       SET next_attempt_at = CURRENT_TIMESTAMP(3) + INTERVAL ? MICROSECOND,
+           last_error = ?
+       WHERE id = ?`,
+      [delayMs * 1000, error, id]
+    );
+  }
+
+  /**
+   * Gives up on a delivery.
+   * @param id - Delivery ID
+   * @param error - Final failure, or why the delivery was dropped
+   */
+  public async markDead(id: number, error: string): Promise<void> {
+    await query<ResultSetHeader>(
+      "UPDATE webhook_deliveries SET status = 'dead', last_error = ? WHERE id = ?",
+      [error, id]
+    );
+  }
+
+  /**
+   * Deletes delivered and dead deliveries older than the retention period.
+   *
+   * @param retentionDays - Minimum age of the outcome before a row is deleted
+   * @param batchSize - Maximum rows deleted by this call
+   * @returns Promise resolving to the number of rows deleted
+   */
+  public async deleteFinished(retentionDays: number, batchSize: number): Promise<number> {
+    const result = await query<ResultSetHeader>(
+      `DELETE FROM webhook_deliveries
+       WHERE status IN ('delivered', 'dead')
+         AND updated_at < CURRENT_TIMESTAMP - INTERVAL ? DAY
+       LIMIT ${batchSize}`,
+      [retentionDays]
+    );
+    return result.affectedRows;
+  }
+
+  /**
+   * Reads deliveries on a transaction connection, in id order.
+   * @private
+   */
+  private async findByIds(connection: PoolConnection, ids: number[]): Promise<WebhookDelivery[]> {
+    const [rows] = await connection.execute<WebhookDeliveryRow[]>(
+      `SELECT ${DELIVERY_COLUMNS}
+       FROM webhook_deliveries
+       WHERE id IN (${ids.map(() => '?').join(', ')})
+       ORDER BY id ASC`,
+      ids
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      target:
+        row.targetKind === 'subscription'
+          ? { kind: 'subscription', subscriptionId: row.subscriptionId as string }
+          : { kind: 'low_stock' },
+      event: row.event,
+      attempts: row.attempts,
+    }));
+  }
+}
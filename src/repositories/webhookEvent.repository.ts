@@ -0,0 +1,299 @@
+/**
+ * Incoming Webhook Event Data Access Layer
+ * 
+ * Persists received webhook events and their processing status. The unique
+ * (source, event_id) pair decides whether an event was seen before.
+ * 
+ * @module repositories/webhookEvent.repository
+ */
+
+import { ResultSetHeader } from 'mysql2/promise';
+import { query } from '../infrastructure/database';
+import {
+  IncomingWebhookEvent,
+  WebhookEventFilters,
+  WebhookEventRecord,
+  WebhookEventSummary,
+} from '../types/webhook.types';
+
+/** Webhook event column mappings, without the payload */
+const WEBHOOK_EVENT_SUMMARY_COLUMNS = `
+  id,
+  source,
+  event_id as eventId,
+  event_type as eventType,
+  status,
+  attempts,
+  last_error as lastError,
+  received_at as receivedAt,
+  updated_at as updatedAt,
+  processed_at as processedAt
+`;
+
+/** Webhook event column mappings */
+const WEBHOOK_EVENT_COLUMNS = `${WEBHOOK_EVENT_SUMMARY_COLUMNS}, payload`;
+
+/** MySQL error code for a unique key violation */
+const DUPLICATE_KEY_ERROR = 'ER_DUP_ENTRY';
+
+/**
+ * Repository for incoming webhook events.
+ * 
+ * @class WebhookEventRepository
+ */
+export class WebhookEventRepository {
+  /**
+   * Stores an event unless one with the same source and id exists.
+   * 
+   * @param event - Received event (stored as the payload)
+   * @returns Promise resolving to true if the event was stored, false if
+   * its id was already known for the source
+   * 
+   * @remarks
+   * A plain INSERT whose duplicate-key error is caught: mysql2 sets
+   * CLIENT_FOUND_ROWS, so an ON DUPLICATE KEY UPDATE no-op reports the same
+   * affectedRows as an insert, and INSERT IGNORE would also swallow other
+   * errors.
+   */
+  public async insertIfAbsent(event: IncomingWebhookEvent): Promise<boolean> {
+    try {
+      await query<ResultSetHeader>(
+        `INSERT INTO webhook_events (source, event_id, event_type, payload, status)
+         VALUES (?, ?, ?, ?, 'received')`,
+        [event.source, event.id, event.type, JSON.stringify(event)]
+      );
+      return true;
+    } catch (error) {
+      if ((error as { code?: string }).code === DUPLICATE_KEY_ERROR) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves an event by its source and event id.
+   * @param source - Webhook source name
+   * @param eventId - Sender's event id (idempotency key)
+   * @returns Promise resolving to the event or null if not found
+   */
+  public async findByEventId(source: string, eventId: string): Promise<WebhookEventRecord | null> {
+    const results = await query<WebhookEventRecord[]>(
+      `SELECT ${WEBHOOK_EVENT_COLUMNS} FROM webhook_events WHERE source = ? AND event_id = ? LIMIT 1`,
+      [source, eventId]
+    );
+    return results.length > 0 ? results[0] : null;
+  }
+
+  /**
+   * Retrieves an event by its row ID.
+   * @param id - webhook_events row ID
+   * @returns Promise resolving to the event or null if not found
+   */
+  public async findById(id: number): Promise<WebhookEventRecord | null> {
+    const results = await query<WebhookEventRecord[]>(
+      `SELECT ${WEBHOOK_EVENT_COLUMNS} FROM webhook_events WHERE id = ? LIMIT 1`,
+      [id]
+    );
+    return results.length > 0 ? results[0] : null;
+  }
+
+  /**
+   * Searches events, newest first.
+   * 
+   * @param filters - Source, event id, type, status and received_at range
+   * @param limit - Maximum events returned
+   * @param beforeId - Only return events with a lower row id (keyset cursor)
+   * @returns Promise resolving to the events, without payloads
+   */
+  public async findMany(
+    filters: WebhookEventFilters,
+    limit: number,
+    beforeId?: number
+  ): Promise<WebhookEventSummary[]> {
+    const { where, params } = this.buildFilters(filters);
+
+    if (beforeId !== undefined) {
+      where.push('id < ?');
+      params.push(beforeId);
+    }
+
+    return await query<WebhookEventSummary[]>(
+      `SELECT ${WEBHOOK_EVENT_SUMMARY_COLUMNS}
+       FROM webhook_events
+       ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+       ORDER BY id DESC
+       LIMIT ${limit}`,
+      params
+    );
+  }
+
+  /**
+   * Lists events matching filters in the order they were received.
+   * 
+   * @param filters - Source, event id, type, status and received_at range
+   * @param limit - Maximum events returned
+   * @param afterId - Only return events with a higher row id (continuation)
+   * @returns Promise resolving to the events, oldest first, without payloads
+   */
+  public async findManyAscending(
+    filters: WebhookEventFilters,
+    limit: number,
+    afterId?: number
+  ): Promise<WebhookEventSummary[]> {
+    const { where, params } = this.buildFilters(filters);
+
+    if (afterId !== undefined) {
+      where.push('id > ?');
+      params.push(afterId);
+    }
+
+    return await query<WebhookEventSummary[]>(
+      `SELECT ${WEBHOOK_EVENT_SUMMARY_COLUMNS}
+       FROM webhook_events
+       ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+       ORDER BY id ASC
+       LIMIT ${limit}`,
+      params
+    );
+  }
+
+  /**
+   * Puts an event back to 'received' so it can be processed again.
+   * 
+   * @param id - webhook_events row ID
+   * @param includeProcessed - Also reset an event that was processed
+   * @returns Promise resolving to true if the event was reset
+   */
+  public async resetForReplay(id: number, includeProcessed: boolean): Promise<boolean> {
+    const result = await query<ResultSetHeader>(
+      `UPDATE webhook_events
+       SET status = 'received', processed_at = NULL
+       WHERE id = ?
+       ${includeProcessed ? '' : "AND status <> 'processed'"}`,
+      [id]
+    );
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * Marks an event as being processed and counts the attempt.
+   * @param source - Webhook source name
+   * @param eventId - Sender's event id
+   */
+  public async markProcessing(source: string, eventId: string): Promise<void> {
+    await query<ResultSetHeader>(
+      `UPDATE webhook_events
+       SET status = 'processing', attempts = attempts + 1, last_error = NULL
+       WHERE source = ? AND event_id = ?`,
+      [source, eventId]
+    );
+  }
+
+  /**
+   * Marks an event as processed.
+   * @param source - Webhook source name
+   * @param eventId - Sender's event id
+   */
+  public async markProcessed(source: string, eventId: string): Promise<void> {
+    await query<ResultSetHeader>(
+      `UPDATE webhook_events
+       SET status = 'processed', processed_at = CURRENT_TIMESTAMP
+       WHERE source = ? AND event_id = ?`,
+      [source, eventId]
+    );
+  }
+
+  /**
+   * Records a failed attempt.
+   * @param source - Webhook source name
+   * @param eventId - Sender's event id
+   * @param error - Failure reason
+   */
+  public async markFailed(source: string, eventId: string, error: string): Promise<void> {
+    await query<ResultSetHeader>(
+      `UPDATE webhook_events SET status = 'failed', last_error = ? WHERE source = ? AND event_id = ?`,
+      [error, source, eventId]
+    );
+  }
+
+  /**
+   * Marks an event as dead-lettered, unless it was processed meanwhile.
+   * @param source - Webhook source name
+   * @param eventId - Sender's event id
+   */
+  public async markDead(source: string, eventId: string): Promise<void> {
+    await query<ResultSetHeader>(
+      `UPDATE webhook_events
+       SET status = 'dead'
+       WHERE source = ? AND event_id = ? AND status <> 'processed'`,
+      [source, eventId]
+    );
+  }
+
+  /**
+   * Lists events received, claimed or failed long ago and still not
+   * finished.
+   * 
+   * @param olderThanSeconds - Minimum seconds since the row last changed
+   * @param maxAttempts - Failed events with this many attempts are left out
+   * @param limit - Maximum events returned
+   * @returns Promise resolving to the events, oldest first
+   */
+  public async findStale(
+    olderThanSeconds: number,
+    maxAttempts: number,
+    limit: number
+  ): Promise<WebhookEventSummary[]> {
+    return await query<WebhookEventSummary[]>(
+      `SELECT ${WEBHOOK_EVENT_SUMMARY_COLUMNS}
+       FROM webhook_events
+       WHERE (status IN ('received', 'processing') OR (status = 'failed' AND attempts < ?))
+         AND updated_at < CURRENT_TIMESTAMP - INTERVAL ? SECOND
+       ORDER BY id ASC
+       LIMIT ${limit}`,
+      [maxAttempts, olderThanSeconds]
+    );
+  }
+
+  /**
+   * Builds WHERE conditions for search filters.
+   * @private
+   */
+  private buildFilters(filters: WebhookEventFilters): { where: string[]; params: any[] } {
+    const where: string[] = [];
+    const params: any[] = [];
+
+    if (filters.source) {
+      where.push('source = ?');
+      params.push(filters.source);
+    }
+
+    if (filters.eventId) {
+      where.push('event_id = ?');
+      params.push(filters.eventId);
+    }
+
+    if (filters.type) {
+      where.push('event_type = ?');
+      params.push(filters.type);
+    }
+
+    if (filters.status) {
+      where.push('status = ?');
+      params.push(filters.status);
+    }
+
+    if (filters.from) {
+      where.push('received_at >= ?');
+      params.push(filters.from);
+    }
+
+    if (filters.to) {
+      where.push('received_at < ?');
+      params.push(filters.to);
+    }
+
+    return { where, params };
+  }
+}
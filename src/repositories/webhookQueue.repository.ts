@@ -0,0 +1,115 @@
+/**
+ * Incoming Webhook Job Queue
+ *
+ * Redis-backed queue of stored webhook events waiting to be processed:
+ * - `ready` list consumed by workers (LPUSH / RPOP - FIFO)
+ * - `delayed` sorted set of retries, scored by the time they are due
+ * - `dead` list of jobs that exhausted their retries (newest first, capped)
+ *
+ * Jobs only reference the event; the payload is read from webhook_events,
+ * so a lost job is recovered from the database.
+ *
+ * @module repositories/webhookQueue.repository
+ */
+
+import { getRedisClient } from '../infrastructure/redis';
+import { config } from '../config';
+import { WebhookJob, WebhookQueueDeadLetter } from '../types/webhook.types';
+
+/**
+ * Repository for the webhook job queue.
+ *
+ * @class WebhookQueueRepository
+ */
+export class WebhookQueueRepository {
+  private readonly readyKey = `${config.redis.keyPrefix}webhook:queue:ready`;
+  private readonly delayedKey = `${config.redis.keyPrefix}webhook:queue:delayed`;
+  private readonly deadKey = `${config.redis.keyPrefix}webhook:queue:dead`;
+
+  /**
+   * Adds a job to the back of the ready list.
+   * @param job - Job to run as soon as a worker is free
+   */
+  public async enqueue(job: WebhookJob): Promise<void> {
+    await getRedisClient().lPush(this.readyKey, JSON.stringify(job));
+  }
+
+  /**
+   * Schedules a job to become ready later.
+   * @param job - Job to run
+   * @param runAt - Epoch millis when the job is due
+   */
+  public async schedule(job: WebhookJob, runAt: number): Promise<void> {
+    await getRedisClient().zAdd(this.delayedKey, { score: runAt, value: JSON.stringify(job) });
+  }
+
+  /**
+   * Moves due delayed jobs to the ready list.
+   *
+   * @param limit - Maximum jobs moved
+   * @returns Promise resolving to the number of jobs moved
+   *
+   * @remarks
+   * ZREM decides which worker moves a job, so concurrent workers never
+   * enqueue the same retry twice.
+   */
+  public async promoteDue(limit: number): Promise<number> {
+    const client = getRedisClient();
+    const due = await client.zRangeByScore(this.delayedKey, 0, Date.now(), {
+      LIMIT: { offset: 0, count: limit },
+    });
+
+    let promoted = 0;
+    for (const job of due) {
+      if (await client.zRem(this.delayedKey, job)) {
+        await client.lPush(this.readyKey, job);
+        promoted++;
+      }
+    }
+
+    return promoted;
+  }
+
+  /**
+   * Takes the oldest ready job.
+   * @returns Promise resolving to the job, or null if the list is empty
+   */
+  public async dequeue(): Promise<WebhookJob | null> {
+    const job = await getRedisClient().rPop(this.readyKey);
+    return job ? JSON.parse(job) : null;
+  }
+
+  /**
+   * Records a job that will not be retried.
+   * @param deadLetter - Job, final error and failure time
+   */
+  public async deadLetter(deadLetter: WebhookQueueDeadLetter): Promise<void> {
+    await getRedisClient()
+      .multi()
+      .lPush(this.deadKey, JSON.stringify(deadLetter))
+      .lTrim(this.deadKey, 0, config.webhookQueue.deadLetterLimit - 1)
+      .exec();
+  }
+
+  /**
+   * Counts the jobs in each part of the queue.
+   */
+  public async getDepth(): Promise<{ ready: number; delayed: number; dead: number }> {
+    const client = getRedisClient();
+    const [ready, delayed, dead] = await Promise.all([
+      client.lLen(this.readyKey),
+      client.zCard(this.delayedKey),
+      client.lLen(this.deadKey),
+    ]);
+    return { ready, delayed, dead };
+  }
+
+  /**
+   * Lists dead-lettered jobs, newest first.
+   * @param limit - Maximum entries returned
+   */
+  public async findDeadLetters(limit: number): Promise<WebhookQueueDeadLetter[]> {
+    const entries = await getRedisClient().lRange(this.deadKey, 0, limit - 1);
+    return entries.map((entry) => JSON.parse(entry));
+  }
+}
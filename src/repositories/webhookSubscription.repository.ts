@@ -0,0 +1,115 @@
+/**
+ * Webhook Subscription Data Access Layer
+ * 
+ * Persists outbound webhook subscribers and the event types they receive.
+ * 
+ * @module repositories/webhookSubscription.repository
+ */
+
+import { ResultSetHeader } from 'mysql2/promise';
+import { query } from '../infrastructure/database';
+import {
+  CreateWebhookSubscriptionInput,
+  WebhookSubscription,
+  WebhookSubscriptionRecord,
+} from '../types/webhook.types';
+
+/** Subscription columns returned by the API (secret excluded) */
+const SUBSCRIPTION_COLUMNS = `
+  id,
+  url,
+  event_types as eventTypes,
+  active = 1 as active,
+  created_at as createdAt,
+  updated_at as updatedAt
+`;
+
+/**
+ * Repository for webhook subscriptions.
+ * 
+ * @class WebhookSubscriptionRepository
+ */
+export class WebhookSubscriptionRepository {
+  /**
+   * Creates an active subscription.
+   * @param id - Subscription ID
+   * @param input - URL, event types and signing secret
+   */
+  public async create(id: string, input: CreateWebhookSubscriptionInput): Promise<void> {
+    await query<ResultSetHeader>(
+      'INSERT INTO webhook_subscriptions (id, url, event_types, secret) VALUES (?, ?, ?, ?)',
+      [id, input.url, JSON.stringify(input.eventTypes), input.secret]
+    );
+  }
+
+  /**
+   * Retrieves a subscription by ID (without its secret).
+   * @param id - Subscription ID
+   * @returns Promise resolving to the subscription or null if not found
+   */
+  public async findById(id: string): Promise<WebhookSubscription | null> {
+    const results = await query<WebhookSubscription[]>(
+      `SELECT ${SUBSCRIPTION_COLUMNS} FROM webhook_subscriptions WHERE id = ? LIMIT 1`,
+      [id]
+    );
+    return results.length > 0 ? this.toSubscription(results[0]) : null;
+  }
+
+  /**
+   * Retrieves a subscription with its signing secret.
+   * @param id - Subscription ID
+   * @returns Promise resolving to the subscription or null if not found
+   */
+  public async findRecordById(id: string): Promise<WebhookSubscriptionRecord | null> {
+    const results = await query<WebhookSubscriptionRecord[]>(
+      `SELECT ${SUBSCRIPTION_COLUMNS}, secret FROM webhook_subscriptions WHERE id = ? LIMIT 1`,
+      [id]
+    );
+    return results.length > 0 ? this.toSubscription(results[0]) : null;
+  }
+
+  /**
+   * Lists every subscription (without secrets), newest first.
+   */
+  public async findAll(): Promise<WebhookSubscription[]> {
+    const results = await query<WebhookSubscription[]>(
+      `SELECT ${SUBSCRIPTION_COLUMNS} FROM webhook_subscriptions ORDER BY created_at DESC, id`
+    );
+    return results.map((row) => this.toSubscription(row));
+  }
+
+  /**
+   * Lists the active subscriptions for an event type, with their secrets.
+   * @param eventType - Event type being delivered
+   */
+  public async findActiveForEvent(eventType: string): Promise<WebhookSubscriptionRecord[]> {
+    const results = await query<WebhookSubscriptionRecord[]>(
+      `SELECT ${SUBSCRIPTION_COLUMNS}, secret
+       FROM webhook_subscriptions
+       WHERE active = 1 AND JSON_CONTAINS(event_types, JSON_QUOTE(?))`,
+      [eventType]
+    );
+    return results.map((row) => this.toSubscription(row));
+  }
+
+  /**
+   * Deletes a subscription.
+   * @param id - Subscription ID
+   * @returns Promise resolving to true if a row was deleted
+   */
+  public async delete(id: string): Promise<boolean> {
+    const result = await query<ResultSetHeader>(
+      'DELETE FROM webhook_subscriptions WHERE id = ?',
+      [id]
+    );
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * Normalizes driver types (MySQL booleans come back as 0/1).
+   * @private
+   */
+  private toSubscription<T extends WebhookSubscription>(row: T): T {
+    return { ...row, active: Boolean(row.active) };
+  }
+}
@@ -0,0 +1,35 @@
+import { NextFunction, Request, Response } from 'express';
+import router from './product.routes';
+import { BadRequestError } from '../types/errors';
+
+/**
+ * Runs the validation middleware of a GET route against a query string.
+ * @returns The error passed to next, if any
+ */
+const validateQuery = async (path: string, query: Record<string, string>): Promise<unknown> => {
+  const layer = router.stack.find((candidate) => candidate.route?.path === path);
+  const validation = layer?.route?.stack[0].handle as (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => Promise<void>;
+
+  const next = jest.fn();
+  await validation({ query, params: {}, body: {} } as unknown as Request, {} as Response, next);
+
+  expect(next).toHaveBeenCalledTimes(1);
+  return next.mock.calls[0][0];
+};
+
+describe('product list validation', () => {
+  it.each(['/', '/export'])('rejects sortBy=relevance when search has no searchable word (%s)', async (path) => {
+    const error = await validateQuery(path, { sortBy: 'relevance', search: '+-*() "' });
+
+    expect(error).toBeInstanceOf(BadRequestError);
+    expect((error as Error).message).toContain('sortBy=relevance requires a search with at least one word');
+  });
+
+  it('accepts sortBy=relevance with a searchable word', async () => {
+    await expect(validateQuery('/', { sortBy: 'relevance', search: '+chair -office' })).resolves.toBeUndefined();
+  });
+});
@@ -1,15 +1,76 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { ProductController } from '../controllers/product.controller';
+import { ProductImportController } from '../controllers/productImport.controller';
+import { ProductReservationController } from '../controllers/productReservation.controller';
+import { PRODUCT_FIELDS, normalizeSearchTerm } from '../repositories/product.repository';
+import { config } from '../config';
+import { requireAdmin } from '../middleware/adminAuth';
 import { rateLimiter } from '../middleware/rateLimiter';
 import { validate } from '../middleware/validation';
-import { query } from 'express-validator';
+import { body, param, query } from 'express-validator';
 
 const router = Router();
 const productController = new ProductController();
+const productImportController = new ProductImportController();
+const productReservationController = new ProductReservationController();
+
+/** Maximum import file size */
+const IMPORT_SIZE_LIMIT = '50mb';
+
+/** Facets accepted by the list endpoint */
+const FACET_NAMES = ['category', 'price', 'stock'];
+
+/** Maximum ids accepted by batch-get */
+const MAX_BATCH_GET_IDS = 200;
+
+/** Maximum categories in a single list filter */
+const MAX_CATEGORY_FILTERS = 20;
+
+/**
+ * Validates a sparse fieldset against the product field whitelist
+ */
+const isFieldList = (value: unknown): boolean => {
+  return typeof value === 'string' && value.split(',').every(
+    (field) => (PRODUCT_FIELDS as string[]).includes(field.trim())
+  );
+};
+
+/**
+ * Validates a category filter given as `a,b` or repeated query parameters
+ */
+const isCategoryList = (value: unknown): boolean => {
+  const values = (Array.isArray(value) ? value : [value])
+    .flatMap((item) => (typeof item === 'string' ? item.split(',') : [item]));
+
+  return values.length <= MAX_CATEGORY_FILTERS && values.every(
+    (item) => typeof item === 'string' && item.trim().length > 0 && item.trim().length <= 100
+  );
+};
 
 // Apply rate limiting to all product routes
 router.use(rateLimiter);
 
+/**
+ * Filter, sort and fieldset validators shared by the list and export endpoints
+ */
+const listFilterValidators = [
+  query('sortBy').optional().isIn(['name', 'price', 'createdAt', 'updatedAt', 'relevance']).withMessage('sortBy must be one of: name, price, createdAt, updatedAt, relevance'),
+  query('sortBy').optional().custom((value, { req }) => value !== 'relevance' || normalizeSearchTerm(req.query?.search) !== undefined).withMessage('sortBy=relevance requires a search with at least one word'),
+  query('sortOrder').optional().isIn(['asc', 'desc']).withMessage('sortOrder must be either asc or desc'),
+  query('category').optional().custom(isCategoryList).withMessage(`category must be a list of at most ${MAX_CATEGORY_FILTERS} names of 1-100 characters`),
+  query('search').optional().isString().withMessage('search must be a string'),
+  query('minPrice').optional().isFloat({ min: 0 }).withMessage('minPrice must be a number >= 0'),
+  query('maxPrice').optional().isFloat({ min: 0 }).withMessage('maxPrice must be a number >= 0'),
+  query('inStock').optional().isIn(['true', 'false']).withMessage('inStock must be true or false'),
+  query('minStock').optional().isInt({ min: 0 }).withMessage('minStock must be an integer >= 0'),
+  query('maxStock').optional().isInt({ min: 0 }).withMessage('maxStock must be an integer >= 0'),
+  query('createdAfter').optional().isISO8601().withMessage('createdAfter must be an ISO 8601 date'),
+  query('createdBefore').optional().isISO8601().withMessage('createdBefore must be an ISO 8601 date'),
+  query('updatedSince').optional().isISO8601().withMessage('updatedSince must be an ISO 8601 date'),
+  query('includeDeleted').optional().isIn(['true', 'false']).withMessage('includeDeleted must be true or false'),
+  query('fields').optional().custom(isFieldList).withMessage(`fields must be a comma-separated list of: ${PRODUCT_FIELDS.join(', ')}`),
+];
+
 /**
  * GET /api/v1/products
  * List products with pagination, filtering, sorting
@@ -19,20 +80,216 @@ router.get(
   validate([
     query('cursor').optional().isString().withMessage('cursor must be a string'),
     query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be an integer between 1 and 100'),
-    query('sortBy').optional().isIn(['name', 'price', 'createdAt', 'updatedAt']).withMessage('sortBy must be one of: name, price, createdAt, updatedAt'),
-    query('sortOrder').optional().isIn(['asc', 'desc']).withMessage('sortOrder must be either asc or desc'),
-    query('category').optional().isString().withMessage('category must be a string'),
-    query('search').optional().isString().withMessage('search must be a string'),
-    query('minPrice').optional().isFloat({ min: 0 }).withMessage('minPrice must be a number >= 0'),
-    query('maxPrice').optional().isFloat({ min: 0 }).withMessage('maxPrice must be a number >= 0'),
+    query('includeTotal').optional().isIn(['true', 'false']).withMessage('includeTotal must be true or false'),
+    query('facets').optional().isString().custom((value: string) => value.split(',').every((facet) => FACET_NAMES.includes(facet.trim()))).withMessage('facets must be a comma-separated list of: category, price, stock'),
+    ...listFilterValidators,
   ]),
   productController.listProducts
 );
 
+/**
+ * GET /api/v1/products/export
+ * Stream every matching product as CSV, NDJSON or JSON
+ */
+router.get(
+  '/export',
+  validate([
+    query('format').optional().isIn(['csv', 'ndjson', 'json']).withMessage('format must be one of: csv, ndjson, json'),
+    ...listFilterValidators,
+  ]),
+  productController.exportProducts
+);
+
 /**
  * GET /api/v1/products/:id
  * Get single product by ID
  */
-router.get('/:id', productController.getProduct);
+router.get(
+  '/:id',
+  validate([
+    query('includeDeleted').optional().isIn(['true', 'false']).withMessage('includeDeleted must be true or false'),
+    query('fields').optional().custom(isFieldList).withMessage(`fields must be a comma-separated list of: ${PRODUCT_FIELDS.join(', ')}`),
+    query('asOf').optional().isISO8601().withMessage('asOf must be an ISO 8601 date'),
+  ]),
+  productController.getProduct
+);
+
+/**
+ * GET /api/v1/products/:id/history
+ * Audit trail of creates, updates, deletes and restores (newest first)
+ */
+router.get(
+  '/:id/history',
+  validate([
+    param('id').isUUID().withMessage('id must be a valid UUID'),
+    query('cursor').optional().isString().withMessage('cursor must be a string'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be an integer between 1 and 100'),
+  ]),
+  productController.getProductHistory
+);
+
+/**
+ * GET /api/v1/products/:id/prices
+ * Price changes within an optional from/to range (oldest first)
+ */
+router.get(
+  '/:id/prices',
+  validate([
+    param('id').isUUID().withMessage('id must be a valid UUID'),
+    query('from').optional().isISO8601().withMessage('from must be an ISO 8601 date'),
+    query('to').optional().isISO8601().withMessage('to must be an ISO 8601 date'),
+  ]),
+  productController.getPriceHistory
+);
+
+/**
+ * POST /api/v1/products/batch-get
+ * Fetch up to 200 products by ID in one call
+ */
+router.post(
+  '/batch-get',
+  validate([
+    body('ids').isArray({ min: 1, max: MAX_BATCH_GET_IDS }).withMessage(`ids must be an array of 1-${MAX_BATCH_GET_IDS} product IDs`),
+    body('ids.*').isUUID().withMessage('ids must contain valid UUIDs'),
+  ]),
+  productController.batchGetProducts
+);
+
+/**
+ * POST /api/v1/products/imports
+ * Start a bulk import from a CSV or NDJSON body (admin only)
+ */
+router.post(
+  '/imports',
+  // Before the body parser, so unauthenticated uploads are never read
+  requireAdmin,
+  express.text({
+    type: ['text/csv', 'application/x-ndjson', 'application/ndjson'],
+    limit: IMPORT_SIZE_LIMIT,
+  }),
+  productImportController.createImport
+);
+
+/**
+ * GET /api/v1/products/imports/:id
+ * Import job status with accepted/rejected counts and row errors
+ */
+router.get(
+  '/imports/:id',
+  validate([
+    param('id').isUUID().withMessage('id must be a valid UUID'),
+  ]),
+  productImportController.getImport
+);
+
+/**
+ * POST /api/v1/products
+ * Create a product
+ */
+router.post(
+  '/',
+  validate([
+    body('name').isString().trim().isLength({ min: 1, max: 255 }).withMessage('name must be a string of 1-255 characters'),
+    body('description').optional().isString().withMessage('description must be a string'),
+    body('price').isFloat({ min: 0 }).withMessage('price must be a number >= 0').toFloat(),
+    body('category').optional().isString().isLength({ max: 100 }).withMessage('category must be a string of at most 100 characters'),
+    body('stock').optional().isInt({ min: 0 }).withMessage('stock must be an integer >= 0').toInt(),
+  ]),
+  productController.createProduct
+);
+
+/**
+ * PATCH /api/v1/products/:id
+ * Partially update a product
+ */
+router.patch(
+  '/:id',
+  validate([
+    param('id').isUUID().withMessage('id must be a valid UUID'),
+    body('name').optional().isString().trim().isLength({ min: 1, max: 255 }).withMessage('name must be a string of 1-255 characters'),
+    body('description').optional().isString().withMessage('description must be a string'),
+    body('price').optional().isFloat({ min: 0 }).withMessage('price must be a number >= 0').toFloat(),
+    body('category').optional().isString().isLength({ max: 100 }).withMessage('category must be a string of at most 100 characters'),
+    body('stock').optional().isInt({ min: 0 }).withMessage('stock must be an integer >= 0').toInt(),
+  ]),
+  productController.updateProduct
+);
+
+/**
+ * DELETE /api/v1/products/:id
+ * Soft-delete a product
+ */
+router.delete(
+  '/:id',
+  validate([
+    param('id').isUUID().withMessage('id must be a valid UUID'),
+  ]),
+  productController.deleteProduct
+);
+
+/**
+ * POST /api/v1/products/:id/restore
+ * Restore a soft-deleted product (admin only)
+ */
+router.post(
+  '/:id/restore',
+  requireAdmin,
+  validate([
+    param('id').isUUID().withMessage('id must be a valid UUID'),
+  ]),
+  productController.restoreProduct
+);
+
+/**
+ * Reservation path validators (product id and reservation id)
+ */
+const reservationParamValidators = [
+  param('id').isUUID().withMessage('id must be a valid UUID'),
+  param('reservationId').isUUID().withMessage('reservationId must be a valid UUID'),
+];
+
+/**
+ * POST /api/v1/products/:id/reservations
+ * Hold stock for checkout (409 when it would oversell)
+ */
+router.post(
+  '/:id/reservations',
+  validate([
+    param('id').isUUID().withMessage('id must be a valid UUID'),
+    body('quantity').isInt({ min: 1 }).withMessage('quantity must be an integer >= 1').toInt(),
+    body('ttlSeconds').optional().isInt({ min: 1, max: config.reservations.maxTtlSeconds }).withMessage(`ttlSeconds must be an integer between 1 and ${config.reservations.maxTtlSeconds}`).toInt(),
+  ]),
+  productReservationController.createReservation
+);
+
+/**
+ * GET /api/v1/products/:id/reservations/:reservationId
+ * Get a reservation
+ */
+router.get(
+  '/:id/reservations/:reservationId',
+  validate(reservationParamValidators),
+  productReservationController.getReservation
+);
+
+/**
+ * POST /api/v1/products/:id/reservations/:reservationId/commit
+ * Make the reserved stock decrement permanent
+ */
+router.post(
+  '/:id/reservations/:reservationId/commit',
+  validate(reservationParamValidators),
+  productReservationController.commitReservation
+);
+
+/**
+ * DELETE /api/v1/products/:id/reservations/:reservationId
+ * Release a reservation and return its stock
+ */
+router.delete(
+  '/:id/reservations/:reservationId',
+  validate(reservationParamValidators),
+  productReservationController.releaseReservation
+);
 
 export default router;
@@ -1,13 +1,207 @@
 import { Router } from 'express';
+import { body, param, query } from 'express-validator';
 import { WebhookController } from '../controllers/webhook.controller';
+import { WebhookSubscriptionController } from '../controllers/webhookSubscription.controller';
+import { WebhookAdminController } from '../controllers/webhookAdmin.controller';
+import { requireAdmin } from '../middleware/adminAuth';
+import { validate } from '../middleware/validation';
 
 const router = Router();
 const webhookController = new WebhookController();
+const webhookSubscriptionController = new WebhookSubscriptionController();
+const webhookAdminController = new WebhookAdminController();
+
+/** Events subscribers can register for */
+const SUBSCRIBABLE_EVENT_TYPES = ['product.created', 'product.updated', 'product.deleted'];
+
+/** Statuses received webhook events can be filtered by */
+const WEBHOOK_EVENT_STATUSES = ['received', 'processing', 'processed', 'failed', 'dead'];
+
+/**
+ * Filters shared by event search (query string) and bulk replay (body).
+ */
+const eventFilterValidators = (location: typeof query | typeof body) => [
+  location('source').optional().matches(/^[a-z0-9_-]{1,50}$/).withMessage('source must be 1-50 lower-case letters, digits, - or _'),
+  location('eventId').optional().isString().isLength({ min: 1, max: 255 }).withMessage('eventId must be 1-255 characters'),
+  location('type').optional().isString().isLength({ min: 1, max: 100 }).withMessage('type must be 1-100 characters'),
+  location('status').optional().isIn(WEBHOOK_EVENT_STATUSES).withMessage(`status must be one of: ${WEBHOOK_EVENT_STATUSES.join(', ')}`),
+  location('from').optional().isISO8601().withMessage('from must be an ISO 8601 date'),
+  location('to').optional().isISO8601().withMessage('to must be an ISO 8601 date'),
+];
+
+/** Minimum length of a subscription signing secret */
+const MIN_SECRET_LENGTH = 16;
 
 /**
  * POST /api/v1/webhooks/events
- * Webhook receiver endpoint with idempotency
+ * Webhook receiver endpoint with idempotency (events are processed by the worker)
  */
 router.post('/events', webhookController.handleWebhook);
 
+/**
+ * POST /api/v1/webhooks/:source/events
+ * Webhook receiver for a configured partner (WEBHOOK_SOURCES)
+ */
+router.post(
+  '/:source/events',
+  validate([
+    param('source').matches(/^[a-z0-9_-]{1,50}$/).withMessage('source must be 1-50 lower-case letters, digits, - or _'),
+  ]),
+  webhookController.handleWebhook
+);
+
+/**
+ * POST /api/v1/webhooks/subscriptions
+ * Register an endpoint for signed product events (admin only)
+ */
+router.post(
+  '/subscriptions',
+  requireAdmin,
+  validate([
+    body('url').isURL({ protocols: ['http', 'https'], require_protocol: true, require_tld: false }).withMessage('url must be an http(s) URL'),
+    body('eventTypes').isArray({ min: 1 }).withMessage('eventTypes must be a non-empty array'),
+    body('eventTypes.*').isIn(SUBSCRIBABLE_EVENT_TYPES).withMessage(`eventTypes must contain only: ${SUBSCRIBABLE_EVENT_TYPES.join(', ')}`),
+    body('secret').isString().isLength({ min: MIN_SECRET_LENGTH, max: 255 }).withMessage(`secret must be a string of ${MIN_SECRET_LENGTH}-255 characters`),
+  ]),
+  webhookSubscriptionController.createSubscription
+);
+
+/**
+ * GET /api/v1/webhooks/subscriptions
+ * List subscriptions (admin only)
+ */
+router.get('/subscriptions', requireAdmin, webhookSubscriptionController.listSubscriptions);
+
+/**
+ * GET /api/v1/webhooks/subscriptions/:id
+ * Get a subscription (admin only)
+ */
+router.get(
+  '/subscriptions/:id',
+  requireAdmin,
+  validate([
+    param('id').isUUID().withMessage('id must be a valid UUID'),
+  ]),
+  webhookSubscriptionController.getSubscription
+);
+
+/**
+ * DELETE /api/v1/webhooks/subscriptions/:id
+ * Delete a subscription (admin only)
+ */
+router.delete(
+  '/subscriptions/:id',
+  requireAdmin,
+  validate([
+    param('id').isUUID().withMessage('id must be a valid UUID'),
+  ]),
+  webhookSubscriptionController.deleteSubscription
+);
+
+/**
+ * GET /api/v1/webhooks/dead-letters
+ * Deliveries that failed every retry (admin only)
+ */
+router.get(
+  '/dead-letters',
+  requireAdmin,
+  validate([
+    query('subscriptionId').optional().isUUID().withMessage('subscriptionId must be a valid UUID'),
+    query('includeReplayed').optional().isIn(['true', 'false']).withMessage('includeReplayed must be true or false'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be an integer between 1 and 100'),
+  ]),
+  webhookSubscriptionController.listDeadLetters
+);
+
+/**
+ * POST /api/v1/webhooks/dead-letters/:id/replay
+ * Queue a dead-lettered event for delivery again (admin only)
+ */
+router.post(
+  '/dead-letters/:id/replay',
+  requireAdmin,
+  validate([
+    param('id').isInt({ min: 1 }).withMessage('id must be a positive integer'),
+  ]),
+  webhookSubscriptionController.replayDeadLetter
+);
+
+/**
+ * GET /api/v1/webhooks/admin/queue
+ * Incoming webhook queue depth and recent failures (admin only)
+ */
+router.get(
+  '/admin/queue',
+  requireAdmin,
+  validate([
+    query('failureLimit').optional().isInt({ min: 1, max: 100 }).withMessage('failureLimit must be an integer between 1 and 100'),
+  ]),
+  webhookAdminController.getQueueStatus
+);
+
+/**
+ * GET /api/v1/webhooks/admin/events
+ * Search received webhook events, newest first (admin only)
+ */
+router.get(
+  '/admin/events',
+  requireAdmin,
+  validate([
+    ...eventFilterValidators(query),
+    query('cursor').optional().isString().withMessage('cursor must be a string'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be an integer between 1 and 100'),
+  ]),
+  webhookAdminController.listEvents
+);
+
+/**
+ * POST /api/v1/webhooks/admin/events/replay
+ * Replay every received event matching filters, oldest first (admin only)
+ */
+router.post(
+  '/admin/events/replay',
+  requireAdmin,
+  validate([
+    body().custom((value) => {
+      const filters = ['source', 'eventId', 'type', 'status', 'from', 'to'];
+      if (!filters.some((field) => value?.[field] !== undefined)) {
+        throw new Error(`At least one filter is required: ${filters.join(', ')}`);
+      }
+      return true;
+    }),
+    ...eventFilterValidators(body),
+    body('force').optional().isBoolean({ strict: true }).withMessage('force must be a boolean'),
+    body('limit').optional().isInt({ min: 1, max: 500 }).withMessage('limit must be an integer between 1 and 500').toInt(),
+    body('afterId').optional().isInt({ min: 0 }).withMessage('afterId must be a non-negative integer').toInt(),
+  ]),
+  webhookAdminController.replayEvents
+);
+
+/**
+ * GET /api/v1/webhooks/admin/events/:id
+ * Inspect a received event, including its payload (admin only)
+ */
+router.get(
+  '/admin/events/:id',
+  requireAdmin,
+  validate([
+    param('id').isInt({ min: 1 }).withMessage('id must be a positive integer'),
+  ]),
+  webhookAdminController.getEvent
+);
+
+/**
+ * POST /api/v1/webhooks/admin/events/:id/replay
+ * Replay a received event (admin only)
+ */
+router.post(
+  '/admin/events/:id/replay',
+  requireAdmin,
+  validate([
+    param('id').isInt({ min: 1 }).withMessage('id must be a positive integer'),
+    body('force').optional().isBoolean({ strict: true }).withMessage('force must be a boolean'),
+  ]),
+  webhookAdminController.replayEvent
+);
+
 export default router;
@@ -1,7 +1,7 @@
 import { Router, Request, Response } from 'express';
-import crypto from 'crypto';
 import { config } from '../config';
 import { logger } from '../utils/logger';
+import { buildSignatureHeader } from '../utils/webhookSignature';
 
 const router = Router();
 
@@ -20,11 +20,8 @@ router.post('/generate-signature', (req: Request, res: Response) => {
     });
   }
   
-  // Generate HMAC signature
-  const signature = crypto
-    .createHmac('sha256', config.webhook.secret)
-    .update(JSON.stringify(payload))
-    .digest('hex');
+  // Sign the exact body the curl command sends (valid for WEBHOOK_TIMESTAMP_TOLERANCE seconds)
+  const signature = buildSignatureHeader(JSON.stringify(payload), config.webhook.secret);
   
   logger.info('Generated webhook signature for testing', {
     payloadKeys: Object.keys(payload),
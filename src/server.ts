@@ -13,6 +13,11 @@ import { App } from './app';
 import { config } from './config';
 import { logger } from './utils/logger';
 import { gracefulShutdown } from './utils/shutdown';
+import { startProductPurgeJob } from './jobs/productPurge.job';
+import { startReservationExpiryJob } from './jobs/reservationExpiry.job';
+import { startOutboxRelayJob } from './jobs/outboxRelay.job';
+import { startWebhookWorkerJob } from './jobs/webhookWorker.job';
+import { startWebhookDeliveryJob } from './jobs/webhookDelivery.job';
 
 /** Exit code for initialization failures */
 const EXIT_CODE_FAILURE = 1;
@@ -24,7 +29,8 @@ const EXIT_CODE_FAILURE = 1;
  * 1. Create Express app instance
  * 2. Initialize database and cache connections
  * 3. Start HTTP server
- * 4. Register shutdown handlers
+ * 4. Start background jobs
+ * 5. Register shutdown handlers
  * 
  * @throws Process exits with code 1 if startup fails
  * @returns Promise that resolves when server is listening
@@ -46,6 +52,14 @@ const startServer = async (): Promise<void> => {
       });
     });
     
+    // Start background jobs (purge of soft-deleted products, reservation expiry,
+    // outbox relay, incoming webhook worker, outbound webhook delivery)
+    startProductPurgeJob();
+    startReservationExpiryJob();
+    startOutboxRelayJob();
+    startWebhookWorkerJob();
+    startWebhookDeliveryJob();
+    
     // Register graceful shutdown handlers for clean termination
     process.on('SIGTERM', () => gracefulShutdown(server));
     process.on('SIGINT', () => gracefulShutdown(server));
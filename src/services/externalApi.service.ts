@@ -2,6 +2,7 @@ import axios, { AxiosInstance } from 'axios';
 import { config } from '../config';
 import { logger } from '../utils/logger';
 import { ServiceUnavailableError } from '../types/errors';
+import { executeWithRetry } from '../utils/retry';
 
 enum CircuitState {
   CLOSED = 'CLOSED',
@@ -149,41 +150,11 @@ export class ExternalApiClient {
    * Retry logic with exponential backoff
    */
   private async executeWithRetry<T>(fn: () => Promise<T>): Promise<T> {
-    let lastError: Error | null = null;
-
-    for (let attempt = 0; attempt < this.retryAttempts; attempt++) {
-      try {
-        return await fn();
-      } catch (error) {
-        lastError = error as Error;
-        
-        // Don't retry on client errors (4xx)
-        if (axios.isAxiosError(error) && error.response?.status && error.response.status < 500) {
-          throw error;
-        }
-
-        // Don't retry if circuit breaker is open
-        if (error instanceof ServiceUnavailableError) {
-          throw error;
-        }
-
-        const delay = this.retryDelay * Math.pow(2, attempt);
-        logger.warn(`External API call failed, retrying in ${delay}ms`, {
-          attempt: attempt + 1,
-          maxAttempts: this.retryAttempts,
-          error: (error as Error).message,
-        });
-
-        await this.sleep(delay);
-      }
-    }
-
-    logger.error('External API call failed after all retries', lastError);
-    throw lastError;
-  }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    return await executeWithRetry(fn, {
+      attempts: this.retryAttempts,
+      baseDelayMs: this.retryDelay,
+      label: 'External API call',
+    });
   }
 
   /**
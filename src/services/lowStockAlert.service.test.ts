@@ -0,0 +1,104 @@
+import { LowStockAlertService } from './lowStockAlert.service';
+import { Product } from '../types/product.types';
+import { config } from '../config';
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const product = (stock: number, overrides: Partial<Product> = {}): Product => ({
+  id: '0b6f4c1e-3f1a-4c55-9a52-2f7d0c1e9a10',
+  name: 'Monitor',
+  description: '',
+  price: 199,
+  category: 'electronics',
+  stock,
+  version: 1,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  deletedAt: null,
+  ...overrides,
+});
+
+describe('LowStockAlertService', () => {
+  const service = new LowStockAlertService();
+  const lowStock = { ...config.lowStock };
+
+  beforeEach(() => {
+    Object.assign(config.lowStock, {
+      defaultThreshold: 10,
+      categoryThresholds: new Map([['electronics', 20]]),
+      webhookUrl: 'https://ops.example.com/alerts',
+      webhookSecret: 'secret',
+    });
+  });
+
+  afterAll(() => {
+    Object.assign(config.lowStock, lowStock);
+  });
+
+  describe('getThreshold', () => {
+    it('uses the category threshold, else the default', () => {
+      expect(service.getThreshold('electronics')).toBe(20);
+      expect(service.getThreshold('furniture')).toBe(10);
+      expect(service.getThreshold(null)).toBe(10);
+    });
+
+    it('never resolves a category to an Object.prototype member', () => {
+      expect(service.getThreshold('constructor')).toBe(10);
+    });
+  });
+
+  describe('detectCrossings', () => {
+    it('reports stock dropping below the threshold', () => {
+      expect(service.detectCrossings([{ before: product(20), after: product(19) }])).toEqual([
+        expect.objectContaining({ stock: 19, previousStock: 20, threshold: 20, category: 'electronics' }),
+      ]);
+    });
+
+    it.each([
+      ['stock staying at the threshold', 25, 20],
+      ['stock already below the threshold', 15, 12],
+      ['stock rising', 5, 30],
+    ])('ignores %s', (_label, before, after) => {
+      expect(service.detectCrossings([{ before: product(before), after: product(after) }])).toEqual([]);
+    });
+
+    it('reports a move into a category with a higher threshold', () => {
+      const before = product(15, { category: 'furniture' });
+
+      expect(service.detectCrossings([{ before, after: product(15) }])).toHaveLength(1);
+    });
+
+    it('ignores created and deleted products', () => {
+      expect(
+        service.detectCrossings([
+          { before: null, after: product(0) },
+          { before: product(30), after: null },
+          { before: product(30), after: product(0, { deletedAt: new Date() }) },
+        ])
+      ).toEqual([]);
+    });
+  });
+
+  describe('planAlerts', () => {
+    const changes = [{ before: product(20), after: product(3) }];
+
+    it('derives the same alert id when an event is relayed again', () => {
+      const [first] = service.planAlerts(changes, 'evt-1');
+      const [again] = service.planAlerts(changes, 'evt-1');
+      const [other] = service.planAlerts(changes, 'evt-2');
+
+      expect(first.target).toEqual({ kind: 'low_stock' });
+      expect(first.event.type).toBe('product.low_stock');
+      expect(again.event.id).toBe(first.event.id);
+      expect(other.event.id).not.toBe(first.event.id);
+    });
+
+    it('plans nothing when the alert webhook is not configured', () => {
+      Object.assign(config.lowStock, { webhookUrl: '' });
+
+      expect(service.planAlerts(changes, 'evt-1')).toEqual([]);
+    });
+  });
+});
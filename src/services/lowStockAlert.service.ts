@@ -0,0 +1,120 @@
+/**
+ * Low-Stock Alert Service
+ * 
+ * Detects products whose stock drops below their category threshold and
+ * notifies ops with signed outbound webhook calls:
+ * - Per-category thresholds with a default (config.lowStock)
+ * - One alert per crossing, not per write while stock stays low
+ * - HMAC signature verifiable like our own incoming webhooks
+ * - Queued and retried like subscriber deliveries (see webhookDelivery.service)
+ * 
+ * @module services/lowStockAlert.service
+ */
+
+import { v5 as uuidv5 } from 'uuid';
+import { config } from '../config';
+import { Product } from '../types/product.types';
+import { LowStockAlertData, NewWebhookDelivery } from '../types/webhook.types';
+import { logger } from '../utils/logger';
+
+/** Before/after state of one product write */
+interface ProductChange {
+  before: Product | null;
+  after: Product | null;
+}
+
+/** Event type of low-stock alerts */
+const LOW_STOCK_EVENT_TYPE = 'product.low_stock';
+
+/** UUID v5 namespace of alert ids (derived from the change that caused the alert) */
+const LOW_STOCK_ALERT_NAMESPACE = '6f1c2b7e-4d0a-4f5e-9a3b-8c2d1e0f7a64';
+
+/**
+ * Service for low-stock alerts.
+ * 
+ * @class LowStockAlertService
+ */
+export class LowStockAlertService {
+  /**
+   * Returns the low-stock threshold of a category.
+   * 
+   * @param category - Product category (null uses the default)
+   * @returns Stock level below which the product counts as low
+   */
+  public getThreshold(category: string | null): number {
+    const threshold = category !== null ? config.lowStock.categoryThresholds.get(category) : undefined;
+    return threshold ?? config.lowStock.defaultThreshold;
+  }
+
+  /**
+   * Finds the changes that took a live product's stock below its threshold.
+   * 
+   * @param changes - Before/after state of committed product writes
+   * @returns One alert per crossing
+   * 
+   * @remarks
+   * A product already below its threshold before the write is not reported
+   * again; new and deleted products are ignored.
+   */
+  public detectCrossings(changes: ProductChange[]): LowStockAlertData[] {
+    const alerts: LowStockAlertData[] = [];
+
+    for (const { before, after } of changes) {
+      if (!before || !after || after.deletedAt) {
+        continue;
+      }
+
+      const threshold = this.getThreshold(after.category ?? null);
+      const wasLow = before.stock < this.getThreshold(before.category ?? null);
+
+      if (!wasLow && after.stock < threshold) {
+        alerts.push({
+          productId: after.id,
+          name: after.name,
+          category: after.category ?? null,
+          stock: after.stock,
+          previousStock: before.stock,
+          threshold,
+        });
+      }
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Detects crossings in committed writes and builds a delivery for each alert.
+   * 
+   * @param changes - Before/after state of committed product writes
+   * @param sourceEventId - Id of the outbox event the changes belong to
+   * @returns Deliveries to queue (none when the alert webhook is not configured)
+   * 
+   * @remarks
+   * Alert ids derive from the source event and product, so an alert built
+   * again when the relay re-dispatches an event keeps its id and receivers
+   * can deduplicate it.
+   */
+  public planAlerts(changes: ProductChange[], sourceEventId: string): NewWebhookDelivery[] {
+    const alerts = this.detectCrossings(changes);
+    if (alerts.length === 0) {
+      return [];
+    }
+
+    if (!config.lowStock.webhookUrl || !config.lowStock.webhookSecret) {
+      logger.warn('Low stock detected but alert webhook is not configured', {
+        productIds: alerts.map((alert) => alert.productId),
+      });
+      return [];
+    }
+
+    return alerts.map((alert) => ({
+      target: { kind: 'low_stock' },
+      event: {
+        id: uuidv5(`${sourceEventId}:${alert.productId}`, LOW_STOCK_ALERT_NAMESPACE),
+        type: LOW_STOCK_EVENT_TYPE,
+        createdAt: new Date().toISOString(),
+        data: alert,
+      },
+    }));
+  }
+}
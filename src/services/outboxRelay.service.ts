@@ -0,0 +1,148 @@
+/**
+ * Outbox Relay Service
+ * 
+ * Drains the transactional outbox in order and publishes each event:
+ * - Product events are queued for webhook subscribers
+ * - Product changes are checked for low-stock crossings
+ *
+ * Sending (and retrying) happens in the delivery worker, so a slow
+ * subscriber never holds up the relay.
+ * 
+ * @module services/outboxRelay.service
+ */
+
+import { OutboxRepository } from '../repositories/outbox.repository';
+import { OutboxEvent } from '../types/outbox.types';
+import { ProductEventData } from '../types/webhook.types';
+import { LowStockAlertService } from './lowStockAlert.service';
+import { WebhookDeliveryService } from './webhookDelivery.service';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+/**
+ * Service relaying outbox events.
+ * 
+ * @class OutboxRelayService
+ * @description At-least-once: an event published just before a crash is
+ * published again on the next run with the same event id (and the same
+ * low-stock alert ids); deliveries already stored for it are not queued
+ * twice.
+ */
+export class OutboxRelayService {
+  private readonly outboxRepository: OutboxRepository;
+  private readonly deliveryService: WebhookDeliveryService;
+  private readonly lowStockAlertService: LowStockAlertService;
+
+  constructor() {
+    this.outboxRepository = new OutboxRepository();
+    this.deliveryService = new WebhookDeliveryService();
+    this.lowStockAlertService = new LowStockAlertService();
+  }
+
+  /**
+   * Publishes pending events in id order until the outbox is empty or the
+   * deadline passes.
+   * 
+   * @param deadline - Epoch millis after which no further event is started
+   * (keeps the run inside its lock)
+   * @returns Promise resolving to the number of events dispatched
+   * 
+   * @remarks
+   * An event that fails to publish is left pending and the run stops, so
+   * later events for the same product are never published ahead of it.
+   * Delivery failures do not count - stored deliveries are retried by the
+   * delivery worker and dead-lettered per subscription.
+   */
+  public async drain(deadline: number = Infinity): Promise<number> {
+    const batchSize = config.outbox.relayBatchSize;
+    let dispatched = 0;
+    let batch: OutboxEvent<unknown>[];
+
+    do {
+      batch = await this.outboxRepository.findPending(batchSize);
+
+      for (const event of batch) {
+        if (Date.now() >= deadline) {
+          logger.info('Outbox relay run reached its time budget - continuing next run', {
+            dispatched,
+          });
+          return dispatched;
+        }
+
+        try {
+          await this.dispatch(event);
+        } catch (error) {
+          logger.error('Outbox event relay failed - will retry', {
+            id: event.id,
+            eventId: event.eventId,
+            eventType: event.eventType,
+            error,
+          });
+          await this.outboxRepository.recordFailure(event.id, (error as Error).message);
+          return dispatched;
+        }
+
+        await this.outboxRepository.markDispatched(event.id);
+        dispatched++;
+      }
+    } while (batch.length === batchSize);
+
+    if (dispatched > 0) {
+      logger.info('Outbox events dispatched', { dispatched });
+    }
+
+    return dispatched;
+  }
+
+  /**
+   * Deletes dispatched events past the retention period.
+   * 
+   * @returns Promise resolving to the number of rows deleted
+   */
+  public async purgeDispatched(): Promise<number> {
+    const batchSize = config.outbox.relayBatchSize;
+    let total = 0;
+    let deleted: number;
+
+    do {
+      deleted = await this.outboxRepository.deleteDispatched(
+        config.outbox.dispatchedRetentionDays,
+        batchSize
+      );
+      total += deleted;
+    } while (deleted === batchSize);
+
+    return total;
+  }
+
+  /**
+   * Queues one event for its consumers.
+   * @private
+   */
+  private async dispatch(event: OutboxEvent<unknown>): Promise<void> {
+    if (event.aggregateType !== 'product') {
+      logger.warn('Skipping outbox event of unknown aggregate', {
+        id: event.id,
+        aggregateType: event.aggregateType,
+      });
+      return;
+    }
+
+    const payload = event.payload as ProductEventData;
+
+    const deliveries = await this.deliveryService.planDeliveries({
+      id: event.eventId,
+      type: event.eventType,
+      createdAt: new Date(event.createdAt).toISOString(),
+      data: payload,
+    });
+    const alerts = this.lowStockAlertService.planAlerts(
+      [{ before: payload.previous, after: payload.product }],
+      event.eventId
+    );
+
+    // Queued together, all or none - a failure never leaves subscribers
+    // notified and the event pending
+    await this.deliveryService.enqueue([...deliveries, ...alerts]);
+  }
+}
@@ -0,0 +1,181 @@
+import { ProductService } from './product.service';
+import { ProductRepository } from '../repositories/product.repository';
+import { ProductAuditRepository } from '../repositories/productAudit.repository';
+import { Product, ProductListQuery } from '../types/product.types';
+import { BadRequestError, NotFoundError } from '../types/errors';
+
+jest.mock('../repositories/product.repository');
+jest.mock('../repositories/productAudit.repository');
+jest.mock('../repositories/productPriceHistory.repository');
+jest.mock('../repositories/outbox.repository');
+jest.mock('../infrastructure/database', () => ({ transaction: jest.fn() }));
+jest.mock('../infrastructure/redis', () => ({
+  cacheGet: jest.fn().mockResolvedValue(null),
+  cacheSet: jest.fn(),
+  cacheDel: jest.fn(),
+  cacheDelPattern: jest.fn(),
+  cacheMGet: jest.fn(),
+  cacheMSet: jest.fn(),
+}));
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const product = (n: number): Product => ({
+  id: `00000000-0000-0000-0000-00000000000${n}`,
+  name: `Product ${n}`,
+  description: '',
+  price: 10 * n,
+  category: 'chairs',
+  stock: n,
+  version: 1,
+  createdAt: new Date(Date.UTC(2026, 0, 10 - n)),
+  updatedAt: new Date(Date.UTC(2026, 0, 10 - n)),
+  deletedAt: null,
+});
+
+describe('ProductService.listProducts cursors', () => {
+  const findMany = ProductRepository.prototype.findMany as jest.Mock;
+  const service = new ProductService();
+  const firstPage: ProductListQuery = { limit: 2, category: ['chairs'], minPrice: 5 };
+
+  /** Lists the first page and returns its next-page cursor */
+  const nextCursor = async (): Promise<string> => {
+    findMany.mockResolvedValueOnce([product(1), product(2), product(3)]);
+    const { pagination } = await service.listProducts(firstPage);
+    return pagination.nextCursor as string;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findMany.mockResolvedValue([]);
+  });
+
+  it('accepts a cursor with the filters it was issued for, in any key order', async () => {
+    const cursor = await nextCursor();
+
+    await expect(
+      service.listProducts({ minPrice: 5, cursor, category: ['chairs'], limit: 2 })
+    ).resolves.toMatchObject({ success: true });
+    expect(findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({ cursor }),
+      expect.objectContaining({ id: product(2).id, direction: 'next' })
+    );
+  });
+
+  it('ignores page size and response shaping when matching a cursor', async () => {
+    const cursor = await nextCursor();
+
+    await expect(
+      service.listProducts({ ...firstPage, cursor, limit: 10, includeTotal: false, fields: ['name'] })
+    ).resolves.toMatchObject({ success: true });
+  });
+
+  it.each<[string, Partial<ProductListQuery>]>([
+    ['a changed filter', { minPrice: 6 }],
+    ['an added filter', { search: 'oak' }],
+    ['a removed filter', { category: undefined }],
+    ['deleted products included', { includeDeleted: true }],
+  ])('rejects a cursor reused with %s', async (_label, change) => {
+    const cursor = await nextCursor();
+
+    const result = service.listProducts({ ...firstPage, ...change, cursor });
+
+    await expect(result).rejects.toThrow(BadRequestError);
+    await expect(result).rejects.toThrow('Pagination cursor was issued for different filters');
+    expect(findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a cursor reused with another sort', async () => {
+    const cursor = await nextCursor();
+
+    await expect(service.listProducts({ ...firstPage, sortBy: 'price', cursor })).rejects.toThrow(
+      'Pagination cursor does not match the requested sort'
+    );
+  });
+
+  it('rejects a cursor whose fingerprint was tampered with', async () => {
+    const decoded = JSON.parse(Buffer.from(await nextCursor(), 'base64url').toString('utf-8'));
+    const cursor = Buffer.from(JSON.stringify({ ...decoded, fingerprint: '0000000000000000' })).toString(
+      'base64url'
+    );
+
+    await expect(service.listProducts({ ...firstPage, cursor })).rejects.toThrow(
+      'Pagination cursor was issued for different filters'
+    );
+  });
+
+  it('rejects a previous-page cursor reused with different filters', async () => {
+    const cursor = await nextCursor();
+    findMany.mockResolvedValueOnce([product(3), product(4)]);
+    const { pagination } = await service.listProducts({ ...firstPage, cursor });
+
+    await expect(
+      service.listProducts({ ...firstPage, minPrice: 1, cursor: pagination.prevCursor as string })
+    ).rejects.toThrow('Pagination cursor was issued for different filters');
+  });
+});
+
+describe('ProductService.getProductAsOf', () => {
+  const service = new ProductService();
+  const at = (day: number) => new Date(Date.UTC(2026, 1, day));
+
+  const created = { ...product(1), price: 10, createdAt: at(1), updatedAt: at(1) };
+  const repriced = { ...created, price: 12, version: 2, updatedAt: at(5) };
+  const deleted = { ...repriced, version: 3, updatedAt: at(8), deletedAt: at(8) };
+
+  /** In-memory audit trail: create on day 1, reprice on day 5, delete on day 8 */
+  const trail = [
+    { createdAt: at(1), before: null, after: created },
+    { createdAt: at(5), before: created, after: repriced },
+    { createdAt: at(8), before: repriced, after: deleted },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (ProductAuditRepository.prototype.findLatestAt as jest.Mock).mockImplementation(
+      async (_id: string, asOf: Date) => [...trail].reverse().find((entry) => entry.createdAt <= asOf) ?? null
+    );
+    (ProductAuditRepository.prototype.findFirstAfter as jest.Mock).mockImplementation(
+      async (_id: string, asOf: Date) => trail.find((entry) => entry.createdAt > asOf) ?? null
+    );
+    (ProductRepository.prototype.findById as jest.Mock).mockResolvedValue(deleted);
+  });
+
+  it.each([
+    ['the moment it was created', at(1), 10],
+    ['between changes', at(3), 10],
+    ['the moment of a change', at(5), 12],
+    ['just before deletion', new Date(at(8).getTime() - 1), 12],
+  ])('returns the state at %s', async (_label, asOf, price) => {
+    await expect(service.getProductAsOf(created.id, asOf)).resolves.toMatchObject({ price });
+  });
+
+  it('does not find the product before it was created', async () => {
+    await expect(service.getProductAsOf(created.id, at(0))).rejects.toThrow(NotFoundError);
+  });
+
+  it('does not find the product once deleted unless deleted products are included', async () => {
+    await expect(service.getProductAsOf(created.id, at(9))).rejects.toThrow(NotFoundError);
+    await expect(service.getProductAsOf(created.id, at(9), true)).resolves.toMatchObject({
+      version: 3,
+      deletedAt: at(8),
+    });
+  });
+
+  it('falls back to the current row for a product unchanged since before the audit trail', async () => {
+    (ProductAuditRepository.prototype.findLatestAt as jest.Mock).mockResolvedValue(null);
+    (ProductAuditRepository.prototype.findFirstAfter as jest.Mock).mockResolvedValue(null);
+    (ProductRepository.prototype.findById as jest.Mock).mockResolvedValue(repriced);
+
+    await expect(service.getProductAsOf(created.id, at(2))).resolves.toBe(repriced);
+    await expect(service.getProductAsOf(created.id, at(0))).rejects.toThrow(NotFoundError);
+  });
+
+  it('returns only the requested fields, plus id', async () => {
+    await expect(service.getProductAsOf(created.id, at(6), false, ['price'])).resolves.toEqual({
+      id: created.id,
+      price: 12,
+    });
+  });
+});
@@ -4,17 +4,54 @@
  * Implements business logic for product operations:
  * - Cursor-based pagination for large datasets (1M+ records)
  * - Redis caching with intelligent cache key generation
+ * - Cache invalidation on product writes
+ * - Transactional writes with an audit trail and price history
+ * - Product events written to the transactional outbox
+ * - Point-in-time product snapshots
  * - Error handling and validation
  * 
  * @module services/product.service
  */
 
+import crypto from 'crypto';
+import { PoolConnection } from 'mysql2/promise';
 import { ProductRepository } from '../repositories/product.repository';
-import { Product, ProductListQuery, ProductListResponse } from '../types/product.types';
-import { cacheGet, cacheSet } from '../infrastructure/redis';
+import { ProductAuditRepository } from '../repositories/productAudit.repository';
+import { ProductPriceHistoryRepository } from '../repositories/productPriceHistory.repository';
+import { OutboxRepository } from '../repositories/outbox.repository';
+import {
+  CreateProductInput,
+  Product,
+  ProductCursor,
+  ProductFacets,
+  ProductField,
+  ProductListQuery,
+  ProductListResponse,
+  ProductPriceChange,
+  UpdateProductInput,
+} from '../types/product.types';
+import {
+  AuditContext,
+  NewProductAuditEntry,
+  ProductAuditAction,
+  ProductHistoryCursor,
+  ProductHistoryQuery,
+  ProductHistoryResponse,
+} from '../types/productAudit.types';
+import { NewOutboxEvent } from '../types/outbox.types';
+import { ProductEventData, ProductEventType } from '../types/webhook.types';
+import { transaction } from '../infrastructure/database';
+import {
+  cacheDel,
+  cacheDelPattern,
+  cacheGet,
+  cacheMGet,
+  cacheMSet,
+  cacheSet,
+} from '../infrastructure/redis';
 import { config } from '../config';
 import { logger } from '../utils/logger';
-import { NotFoundError } from '../types/errors';
+import { BadRequestError, ConflictError, NotFoundError } from '../types/errors';
 
 /** Default page size for product listings */
 const DEFAULT_PAGE_LIMIT = 50;
@@ -25,6 +62,31 @@ const CACHE_NAMESPACE_PRODUCTS = 'products';
 /** Cache key prefix for individual products */
 const CACHE_PREFIX_PRODUCT = 'product';
 
+/** Query keys that do not change the result set and are left out of cursor fingerprints */
+const NON_FILTER_QUERY_KEYS: ReadonlyArray<string> = [
+  'cursor',
+  'limit',
+  'sortBy',
+  'sortOrder',
+  'includeTotal',
+  'facets',
+  'fields',
+];
+
+/** Product event emitted for each audited action */
+const PRODUCT_EVENT_TYPES: Record<ProductAuditAction, ProductEventType> = {
+  create: 'product.created',
+  update: 'product.updated',
+  delete: 'product.deleted',
+  restore: 'product.updated',
+  reserve: 'product.updated',
+  release: 'product.updated',
+  adjust: 'product.updated',
+};
+
+/** Sort fields stored as timestamps (encoded as epoch millis in cursors) */
+const DATE_SORT_FIELDS: ReadonlyArray<string> = ['createdAt', 'updatedAt'];
+
 /**
  * Service layer for product operations.
  * 
@@ -34,9 +96,15 @@ const CACHE_PREFIX_PRODUCT = 'product';
  */
 export class ProductService {
   private readonly productRepository: ProductRepository;
+  private readonly auditRepository: ProductAuditRepository;
+  private readonly priceHistoryRepository: ProductPriceHistoryRepository;
+  private readonly outboxRepository: OutboxRepository;
 
   constructor() {
     this.productRepository = new ProductRepository();
+    this.auditRepository = new ProductAuditRepository();
+    this.priceHistoryRepository = new ProductPriceHistoryRepository();
+    this.outboxRepository = new OutboxRepository();
   }
 
   /**
@@ -44,12 +112,14 @@ export class ProductService {
    * 
    * @param query - Query parameters for filtering, sorting, and pagination
    * @returns Promise resolving to paginated product list
+   * @throws {BadRequestError} If the cursor is invalid or was issued for other filters
    * 
    * @remarks
    * - Implements cache-aside pattern (check cache, then database)
    * - Uses cursor-based pagination for consistent results
    * - Cache TTL is short-lived due to frequent updates
    * - Fetches limit+1 records to determine if more pages exist
+   * - Previous-page cursors scan backwards and the page is reversed
    */
   public async listProducts(query: ProductListQuery): Promise<ProductListResponse> {
     try {
@@ -65,31 +135,60 @@ export class ProductService {
 
       logger.info('Cache miss - fetching from database', { cacheKey });
 
+      // Reject malformed cursors or cursors issued for a different query
+      const cursor = query.cursor ? this.decodeCursor(query.cursor, query) : undefined;
+
       // Fetch from database with one extra record for hasMore detection
-      const products = await this.productRepository.findMany(query);
+      const products = await this.productRepository.findMany(query, cursor);
       
       // Determine pagination metadata
       const limit = query.limit || DEFAULT_PAGE_LIMIT;
-      const hasMore = products.length > limit;
+      const hasFurther = products.length > limit;
       
-      // Remove extra record used for hasMore detection
-      if (hasMore) {
+      // Remove extra record used for more-pages detection
+      if (hasFurther) {
         products.pop();
       }
 
-      // Generate cursor for next page
-      const nextCursor = this.generateNextCursor(products, hasMore, query);
+      // Backward scans come back in reverse - restore display order
+      const isPrevPage = cursor?.direction === 'prev';
+      if (isPrevPage) {
+        products.reverse();
+      }
+
+      // Generate cursors for the neighbouring pages
+      const { nextCursor, prevCursor } = this.generatePageCursors(
+        products,
+        query,
+        {
+          hasNext: isPrevPage || hasFurther,
+          hasPrev: isPrevPage ? hasFurther : cursor !== undefined,
+        }
+      );
 
       const response: ProductListResponse = {
         success: true,
-        data: products,
+        data: query.fields
+          ? products.map((product) => this.pickFields(product, query.fields as ProductField[]))
+          : products,
         pagination: {
           nextCursor,
-          hasMore,
+          prevCursor,
+          hasMore: nextCursor !== null,
           limit,
         },
       };
 
+      if (query.includeTotal) {
+        const { total, estimated } = await this.countProducts(query);
+        response.pagination.total = total;
+        response.pagination.totalEstimated = estimated;
+      }
+
+      if (query.facets && query.facets.length > 0) {
+        response.facets = await this.getFacets(query);
+      }
+
       // Cache result with short TTL (data changes frequently)
       await cacheSet(
         cacheKey, 
@@ -104,10 +203,52 @@ export class ProductService {
     }
   }
 
+  /**
+   * Streams every product matching the list filters in batches.
+   * 
+   * @param query - Filters, sort and optional sparse fieldset (cursor and limit are ignored)
+   * @yields Batches of products in query order
+   * 
+   * @remarks
+   * - Walks the result set with keyset pagination, so memory stays bounded
+   *   by the batch size regardless of table size
+   * - Bypasses the cache - exports are one-off full scans
+   */
+  public async *streamProducts(
+    query: ProductListQuery
+  ): AsyncGenerator<Array<Partial<Product>>> {
+    const batchSize = config.products.exportBatchSize;
+    const batchQuery: ProductListQuery = { ...query, cursor: undefined, limit: batchSize };
+    let cursor: ProductCursor | undefined;
+
+    for (;;) {
+      const products = await this.productRepository.findMany(batchQuery, cursor);
+      const hasMore = products.length > batchSize;
+
+      // Remove extra record used for hasMore detection
+      if (hasMore) {
+        products.pop();
+      }
+
+      if (products.length > 0) {
+        yield query.fields
+          ? products.map((product) => this.pickFields(product, query.fields as ProductField[]))
+          : products;
+      }
+
+      if (!hasMore) {
+        return;
+      }
+
+      cursor = this.buildCursor(products[products.length - 1], batchQuery, 'next');
+    }
+  }
+
   /**
    * Retrieves a single product by ID with caching.
    * 
    * @param id - Product unique identifier
+   * @param includeDeleted - Also return soft-deleted products (admin only)
    * @returns Promise resolving to product data
    * @throws {NotFoundError} If product doesn't exist
    * 
@@ -115,7 +256,16 @@ export class ProductService {
    * - Uses medium TTL cache (1 hour) as individual products change less frequently
    * - Implements cache-aside pattern
    */
-  public async getProductById(id: string): Promise<Product> {
+  public async getProductById(id: string, includeDeleted: boolean = false): Promise<Product> {
+    // Deleted products are never cached - admin lookups go straight to the database
+    if (includeDeleted) {
+      const product = await this.productRepository.findById(id, true);
+      if (!product) {
+        throw new NotFoundError(`Product with ID ${id} not found`);
+      }
+      return product;
+    }
+
     const cacheKey = `${CACHE_PREFIX_PRODUCT}:${id}`;
     
     // Check cache first
@@ -143,6 +293,528 @@ export class ProductService {
     return product;
   }
 
+  /**
+   * Retrieves many products by ID, reading through the per-product cache.
+   * 
+   * @param ids - Product unique identifiers (duplicates are collapsed)
+   * @returns Promise resolving to found products in request order, plus missing ids
+   * 
+   * @remarks
+   * - One MGET against `product:<id>` keys
+   * - One `WHERE id IN (...)` query for the misses
+   * - Misses found in the database are backfilled with the medium TTL
+   */
+  public async getProductsByIds(
+    ids: string[]
+  ): Promise<{ products: Product[]; notFound: string[] }> {
+    const uniqueIds = [...new Set(ids)];
+    const cached = await cacheMGet(uniqueIds.map((id) => `${CACHE_PREFIX_PRODUCT}:${id}`));
+
+    const found = new Map<string, Product>();
+    const misses: string[] = [];
+
+    uniqueIds.forEach((id, index) => {
+      const cachedData = cached[index];
+      if (cachedData) {
+        found.set(id, JSON.parse(cachedData));
+      } else {
+        misses.push(id);
+      }
+    });
+
+    if (misses.length > 0) {
+      const loaded = await this.productRepository.findByIds(misses);
+
+      for (const product of loaded) {
+        found.set(product.id, product);
+      }
+
+      await cacheMSet(
+        loaded.map((product) => [`${CACHE_PREFIX_PRODUCT}:${product.id}`, JSON.stringify(product)]),
+        config.cache.ttl.medium
+      );
+    }
+
+    logger.info('Batch product lookup', {
+      requested: uniqueIds.length,
+      cacheHits: uniqueIds.length - misses.length,
+      found: found.size,
+    });
+
+    return {
+      products: uniqueIds.filter((id) => found.has(id)).map((id) => found.get(id) as Product),
+      notFound: uniqueIds.filter((id) => !found.has(id)),
+    };
+  }
+
+  /**
+   * Retrieves a sparse fieldset of a single product with caching.
+   * 
+   * @param id - Product unique identifier
+   * @param fields - Fields to return (id is always included)
+   * @param includeDeleted - Also return soft-deleted products (admin only)
+   * @returns Promise resolving to the requested product fields
+   * @throws {NotFoundError} If product doesn't exist
+   * 
+   * @remarks
+   * Selects only the requested columns and caches each fieldset under
+   * its own `product:<id>:fields:<list>` key.
+   */
+  public async getProductFields(
+    id: string,
+    fields: ProductField[],
+    includeDeleted: boolean = false
+  ): Promise<Partial<Product>> {
+    const normalized = this.normalizeFields(fields);
+    const cacheKey = `${CACHE_PREFIX_PRODUCT}:${id}:fields:${normalized.join(',')}`;
+
+    if (!includeDeleted) {
+      const cachedData = await cacheGet(cacheKey);
+      if (cachedData) {
+        logger.info('Cache hit for product fields', { id, fields: normalized });
+        return JSON.parse(cachedData);
+      }
+    }
+
+    const product = await this.productRepository.findById(id, includeDeleted, normalized);
+
+    if (!product) {
+      throw new NotFoundError(`Product with ID ${id} not found`);
+    }
+
+    // Deleted products are never cached
+    if (!includeDeleted) {
+      await cacheSet(cacheKey, JSON.stringify(product), config.cache.ttl.medium);
+    }
+
+    return product;
+  }
+
+  /**
+   * Reconstructs a product as it was at a point in time.
+   * 
+   * @param id - Product unique identifier
+   * @param asOf - Point in time to reconstruct
+   * @param includeDeleted - Also return the product if it was soft-deleted at that time (admin only)
+   * @param fields - Sparse fieldset to return (optional)
+   * @returns Promise resolving to the product state at `asOf`
+   * @throws {NotFoundError} If the product did not exist (or was deleted) at that time
+   * 
+   * @remarks
+   * The state comes from the audit trail: the "after" of the last change at or
+   * before `asOf`, otherwise the "before" of the first change after it. A
+   * product with no recorded changes since `asOf` is returned as it is now.
+   * Snapshots are not cached.
+   */
+  public async getProductAsOf(
+    id: string,
+    asOf: Date,
+    includeDeleted: boolean = false,
+    fields?: ProductField[]
+  ): Promise<Partial<Product>> {
+    let snapshot: Product | null;
+
+    const latest = await this.auditRepository.findLatestAt(id, asOf);
+    if (latest) {
+      snapshot = latest.after;
+    } else {
+      const next = await this.auditRepository.findFirstAfter(id, asOf);
+      if (next) {
+        snapshot = next.before;
+      } else {
+        // Unchanged since asOf (or predates the audit trail)
+        const current = await this.productRepository.findById(id, true);
+        snapshot = current && new Date(current.createdAt) <= asOf ? current : null;
+      }
+    }
+
+    if (!snapshot || (snapshot.deletedAt && !includeDeleted)) {
+      throw new NotFoundError(`Product with ID ${id} not found at ${asOf.toISOString()}`);
+    }
+
+    return fields ? this.pickFields(snapshot, this.normalizeFields(fields)) : snapshot;
+  }
+
+  /**
+   * Retrieves a product's price changes within a time range, oldest first.
+   * 
+   * @param id - Product unique identifier
+   * @param from - Range start (optional)
+   * @param to - Range end (optional)
+   * @returns Promise resolving to the changes and the price in effect at `from`
+   * @throws {NotFoundError} If the product has no price history and no row
+   */
+  public async getPriceHistory(
+    id: string,
+    from?: Date,
+    to?: Date
+  ): Promise<{ changes: ProductPriceChange[]; priceAtFrom: number | null }> {
+    const [changes, effective] = await Promise.all([
+      this.priceHistoryRepository.findByProductId(id, from, to),
+      from ? this.priceHistoryRepository.findEffectiveAt(id, from) : Promise.resolve(null),
+    ]);
+
+    if (changes.length === 0 && !effective) {
+      const product = await this.productRepository.findById(id, true, ['id']);
+      if (!product) {
+        throw new NotFoundError(`Product with ID ${id} not found`);
+      }
+    }
+
+    return { changes, priceAtFrom: effective ? effective.price : null };
+  }
+
+  /**
+   * Creates a product, records it in the audit trail and invalidates cached listings.
+   * 
+   * @param input - Validated product fields
+   * @param context - Actor and request id for the audit trail
+   * @returns Promise resolving to the created product
+   */
+  public async createProduct(input: CreateProductInput, context: AuditContext): Promise<Product> {
+    const product = await this.writeTransaction(async (connection, record) => {
+      const created = await this.productRepository.create(connection, input);
+      await record([
+        { ...context, productId: created.id, action: 'create', before: null, after: created },
+      ]);
+      return created;
+    });
+
+    await this.invalidateProductCache(product.id);
+
+    logger.info('Product created', { id: product.id, requestId: context.requestId });
+    return product;
+  }
+
+  /**
+   * Applies a partial update to a product and invalidates its cache entries.
+   * 
+   * @param id - Product unique identifier
+   * @param updates - Fields to change
+   * @param context - Actor and request id for the audit trail
+   * @param expectedVersion - Version from the client's If-Match header (optional)
+   * @returns Promise resolving to the updated product
+   * @throws {NotFoundError} If product doesn't exist
+   * @throws {ConflictError} If the product changed since expectedVersion was read
+   * 
+   * @remarks
+   * The row is locked while the version is checked, so the audit entry's
+   * before/after pair always describes exactly this write.
+   */
+  public async updateProduct(
+    id: string,
+    updates: UpdateProductInput,
+    context: AuditContext,
+    expectedVersion?: number
+  ): Promise<Product> {
+    const product = await this.writeTransaction(async (connection, record) => {
+      const before = await this.productRepository.lockById(connection, id);
+      if (!before) {
+        throw new NotFoundError(`Product with ID ${id} not found`);
+      }
+
+      if (expectedVersion !== undefined && before.version !== expectedVersion) {
+        logger.warn('Stale product update rejected', {
+          id,
+          expectedVersion,
+          currentVersion: before.version,
+        });
+        throw new ConflictError(
+          `Product with ID ${id} was modified (current version ${before.version})`
+        );
+      }
+
+      const after = await this.productRepository.update(connection, id, updates);
+      if (!after) {
+        throw new NotFoundError(`Product with ID ${id} not found`);
+      }
+
+      // An empty update writes nothing, so there is nothing to audit
+      if (after.version !== before.version) {
+        await record([
+          { ...context, productId: id, action: 'update', before, after },
+        ]);
+      }
+
+      return after;
+    });
+
+    await this.invalidateProductCache(id);
+
+    logger.info('Product updated', {
+      id,
+      fields: Object.keys(updates),
+      version: product.version,
+      requestId: context.requestId,
+    });
+    return product;
+  }
+
+  /**
+   * Soft-deletes a product and invalidates its cache entries.
+   * 
+   * @param id - Product unique identifier
+   * @param context - Actor and request id for the audit trail
+   * @throws {NotFoundError} If product doesn't exist or is already deleted
+   */
+  public async deleteProduct(id: string, context: AuditContext): Promise<void> {
+    await this.writeTransaction(async (connection, record) => {
+      const before = await this.productRepository.lockById(connection, id);
+      const after = before ? await this.productRepository.delete(connection, id) : null;
+
+      if (!before || !after) {
+        throw new NotFoundError(`Product with ID ${id} not found`);
+      }
+
+      await record([
+        { ...context, productId: id, action: 'delete', before, after },
+      ]);
+    });
+
+    await this.invalidateProductCache(id);
+
+    logger.info('Product deleted', { id, requestId: context.requestId });
+  }
+
+  /**
+   * Restores a soft-deleted product and invalidates cached listings.
+   * 
+   * @param id - Product unique identifier
+   * @param context - Actor and request id for the audit trail
+   * @returns Promise resolving to the restored product
+   * @throws {NotFoundError} If no soft-deleted product has this ID
+   */
+  public async restoreProduct(id: string, context: AuditContext): Promise<Product> {
+    const product = await this.writeTransaction(async (connection, record) => {
+      const before = await this.productRepository.lockById(connection, id, true);
+      const after = before?.deletedAt ? await this.productRepository.restore(connection, id) : null;
+
+      if (!before || !after) {
+        throw new NotFoundError(`Deleted product with ID ${id} not found`);
+      }
+
+      await record([
+        { ...context, productId: id, action: 'restore', before, after },
+      ]);
+      return after;
+    });
+
+    await this.invalidateProductCache(id);
+
+    logger.info('Product restored', { id, requestId: context.requestId });
+    return product;
+  }
+
+  /**
+   * Adds to or removes from a product's stock.
+   *
+   * @param id - Product unique identifier
+   * @param delta - Units added (positive) or removed (negative)
+   * @param context - Actor and request id for the audit trail
+   * @returns Promise resolving to the updated product
+   * @throws {NotFoundError} If product doesn't exist
+   * @throws {ConflictError} If the adjustment would take stock below zero
+   */
+  public async adjustStock(id: string, delta: number, context: AuditContext): Promise<Product> {
+    const product = await this.writeTransaction(async (connection, record) => {
+      const before = await this.productRepository.lockById(connection, id);
+      if (!before) {
+        throw new NotFoundError(`Product with ID ${id} not found`);
+      }
+
+      const after = await this.productRepository.adjustStock(connection, id, delta);
+      if (!after) {
+        throw new ConflictError(
+          `Stock of product ${id} cannot go below zero (stock ${before.stock}, delta ${delta})`
+        );
+      }
+
+      await record([
+        { ...context, productId: id, action: 'adjust', before, after },
+      ]);
+      return after;
+    });
+
+    await this.invalidateProductCache(id);
+
+    logger.info('Product stock adjusted', {
+      id,
+      delta,
+      stock: product.stock,
+      requestId: context.requestId,
+    });
+    return product;
+  }
+
+  /**
+   * Retrieves a product's change history, newest first.
+   * 
+   * @param id - Product unique identifier
+   * @param query - Cursor and page size
+   * @returns Promise resolving to a page of audit entries
+   * @throws {NotFoundError} If the product has neither history nor a row (live or deleted)
+   * @throws {BadRequestError} If the cursor is invalid or was issued for another product
+   * 
+   * @remarks
+   * History is not cached - it is read rarely and must reflect the latest write.
+   * Entries outlive purged products, so history stays readable after a purge.
+   */
+  public async getProductHistory(
+    id: string,
+    query: ProductHistoryQuery
+  ): Promise<ProductHistoryResponse> {
+    const limit = query.limit || DEFAULT_PAGE_LIMIT;
+    const cursor = query.cursor ? this.decodeHistoryCursor(query.cursor, id) : undefined;
+
+    // Fetch one extra entry to detect a further page
+    const entries = await this.auditRepository.findByProductId(id, limit + 1, cursor?.id);
+
+    if (entries.length === 0 && !cursor) {
+      const product = await this.productRepository.findById(id, true, ['id']);
+      if (!product) {
+        throw new NotFoundError(`Product with ID ${id} not found`);
+      }
+    }
+
+    const hasMore = entries.length > limit;
+    const data = hasMore ? entries.slice(0, limit) : entries;
+    const last = data[data.length - 1];
+
+    return {
+      success: true,
+      data,
+      pagination: {
+        nextCursor: hasMore && last ? this.encodeHistoryCursor({ productId: id, id: last.id }) : null,
+        hasMore,
+        limit,
+      },
+    };
+  }
+
+  /**
+   * Hard-deletes products soft-deleted longer than the retention period.
+   * 
+   * @param retentionDays - Minimum days since deletion
+   * @returns Promise resolving to the total number of rows purged
+   * 
+   * @remarks
+   * Runs batch after batch until a batch comes back short, so one call
+   * drains the whole backlog without a single long-running DELETE.
+   */
+  public async purgeDeletedProducts(
+    retentionDays: number = config.products.deletedRetentionDays
+  ): Promise<number> {
+    const batchSize = config.products.purgeBatchSize;
+    let total = 0;
+    let purged: number;
+
+    do {
+      purged = await this.productRepository.purgeDeleted(retentionDays, batchSize);
+      total += purged;
+    } while (purged === batchSize);
+
+    if (total > 0) {
+      // Admin listings with includeDeleted may still reference purged rows
+      await cacheDelPattern(`${CACHE_NAMESPACE_PRODUCTS}:*`);
+      logger.info('Purged soft-deleted products', { total, retentionDays });
+    }
+
+    return total;
+  }
+
+  /**
+   * Drops every cached product and product list.
+   * 
+   * @remarks
+   * For bulk writes, where one SCAN per namespace is cheaper than
+   * invalidating products one at a time.
+   */
+  public async invalidateAllProductCaches(): Promise<void> {
+    await cacheDelPattern(`${CACHE_PREFIX_PRODUCT}:*`);
+    await cacheDelPattern(`${CACHE_NAMESPACE_PRODUCTS}:*`);
+  }
+
+  /**
+   * Runs a product write in a transaction.
+   * 
+   * @param callback - Performs the write; passes the before/after state of
+   * every product it touched to `record`
+   * @returns Promise resolving to the callback result
+   * 
+   * @remarks
+   * Recorded changes are written to the audit trail, price history and
+   * outbox on the same transaction, so neither history nor events can
+   * diverge from the data. The outbox relay publishes the events (webhook
+   * subscribers, low-stock alerts) after commit, surviving crashes.
+   * Every product write goes through here - including imports and stock
+   * reservations.
+   */
+  public async writeTransaction<T>(
+    callback: (
+      connection: PoolConnection,
+      record: (entries: NewProductAuditEntry[]) => Promise<void>
+    ) => Promise<T>
+  ): Promise<T> {
+    return await transaction(async (connection) => {
+      return await callback(connection, async (entries) => {
+        await this.auditRepository.record(connection, entries);
+        await this.priceHistoryRepository.recordChanges(connection, entries);
+        await this.outboxRepository.append(connection, entries.flatMap(
+          ({ action, productId, before, after }): NewOutboxEvent<ProductEventData>[] => after
+            ? [{
+              aggregateType: 'product',
+              aggregateId: productId,
+              eventType: PRODUCT_EVENT_TYPES[action],
+              payload: { product: after, previous: before },
+            }]
+            : []
+        ));
+      });
+    });
+  }
+
+  /**
+   * Removes the cached product (all fieldsets) and every cached product list.
+   * 
+   * @param id - Product unique identifier
+   * 
+   * @remarks
+   * List pages are keyed by query parameters, so any write can affect
+   * any page - all `products:*` keys are dropped.
+   */
+  public async invalidateProductCache(id: string): Promise<void> {
+    await cacheDel(`${CACHE_PREFIX_PRODUCT}:${id}`);
+    await cacheDelPattern(`${CACHE_PREFIX_PRODUCT}:${id}:*`);
+    await cacheDelPattern(`${CACHE_NAMESPACE_PRODUCTS}:*`);
+  }
+
+  /**
+   * Sorts and de-duplicates a sparse fieldset, always including id.
+   * @private
+   */
+  private normalizeFields(fields: ProductField[]): ProductField[] {
+    return [...new Set<ProductField>(['id', ...fields])].sort();
+  }
+
+  /**
+   * Projects a product onto a sparse fieldset (id is always kept).
+   * @private
+   */
+  private pickFields(product: Product, fields: ProductField[]): Partial<Product> {
+    const picked: Partial<Product> = { id: product.id };
+
+    for (const field of fields) {
+      (picked as Record<string, unknown>)[field] = product[field];
+    }
+
+    // Relevance is result metadata, not a column - keep it on search results
+    if (product.relevance !== undefined) {
+      picked.relevance = product.relevance;
+    }
+
+    return picked;
+  }
+
   /**
    * Generates a deterministic cache key from query parameters.
    * 
@@ -161,53 +833,253 @@ export class ProductService {
       `cursor:${query.cursor || 'none'}`,
       `limit:${query.limit || DEFAULT_PAGE_LIMIT}`,
       `sort:${query.sortBy || 'createdAt'}:${query.sortOrder || 'desc'}`,
-      query.category ? `cat:${query.category}` : '',
+      query.category?.length ? `cat:${[...query.category].sort().join(',')}` : '',
       query.search ? `search:${query.search}` : '',
       query.minPrice !== undefined ? `minp:${query.minPrice}` : '',
       query.maxPrice !== undefined ? `maxp:${query.maxPrice}` : '',
+      query.inStock !== undefined ? `instock:${query.inStock ? 1 : 0}` : '',
+      query.minStock !== undefined ? `mins:${query.minStock}` : '',
+      query.maxStock !== undefined ? `maxs:${query.maxStock}` : '',
+      query.createdAfter ? `ca:${query.createdAfter.toISOString()}` : '',
+      query.createdBefore ? `cb:${query.createdBefore.toISOString()}` : '',
+      query.updatedSince ? `us:${query.updatedSince.toISOString()}` : '',
+      query.includeDeleted ? 'deleted:1' : '',
+      query.includeTotal ? 'total:1' : '',
+      query.facets?.length ? `facets:${[...query.facets].sort().join(',')}` : '',
+      query.fields?.length ? `fields:${this.normalizeFields(query.fields).join(',')}` : '',
     ];
     
     return parts.filter(Boolean).join(':');
   }
 
   /**
-   * Generates cursor for next page if more results exist.
+   * Counts products matching the list filters, exactly or by estimate.
    * 
-   * @param products - Current page of products
-   * @param hasMore - Whether more pages exist
+   * @param query - Product list query parameters
+   * @returns Promise resolving to the total and whether it is an estimate
+   * @private
+   * 
+   * @remarks
+   * - Selective filters (optimizer estimate <= threshold) get an exact COUNT(*)
+   * - Broad filters fall back to the index-statistics estimate
+   * - Results are cached per filter fingerprint under the products namespace,
+   *   so product writes invalidate them along with list pages
+   */
+  private async countProducts(
+    query: ProductListQuery
+  ): Promise<{ total: number; estimated: boolean }> {
+    const cacheKey = `${CACHE_NAMESPACE_PRODUCTS}:count:${this.fingerprintFilters(query)}`;
+
+    const cachedData = await cacheGet(cacheKey);
+    if (cachedData) {
+      return JSON.parse(cachedData);
+    }
+
+    const estimate = await this.productRepository.estimateCount(query);
+    const result = estimate <= config.products.exactCountThreshold
+      ? { total: await this.productRepository.countMany(query), estimated: false }
+      : { total: estimate, estimated: true };
+
+    await cacheSet(cacheKey, JSON.stringify(result), config.cache.ttl.short);
+
+    return result;
+  }
+
+  /**
+   * Retrieves facet counts for the list filters with caching.
+   * 
+   * @param query - Product list query parameters (facets must be set)
+   * @returns Promise resolving to the requested facet buckets
+   * @private
+   * 
+   * @remarks
+   * Facets depend only on the filters, not the page, so they are cached
+   * per filter fingerprint and shared by every page of the same listing.
+   */
+  private async getFacets(query: ProductListQuery): Promise<ProductFacets> {
+    const facets = [...new Set(query.facets)].sort();
+    const cacheKey = `${CACHE_NAMESPACE_PRODUCTS}:facets:${this.fingerprintFilters(query)}:${facets.join(',')}`;
+
+    const cachedData = await cacheGet(cacheKey);
+    if (cachedData) {
+      return JSON.parse(cachedData);
+    }
+
+    const result = await this.productRepository.findFacets(query, facets);
+
+    await cacheSet(cacheKey, JSON.stringify(result), config.cache.ttl.short);
+
+    return result;
+  }
+
+  /**
+   * Generates cursors for the pages after and before the current page.
+   * 
+   * @param products - Current page of products (display order)
    * @param query - Original query parameters
-   * @returns Base64-encoded cursor or null if no more pages
+   * @param neighbours - Which adjacent pages exist
+   * @returns Base64url-encoded cursors, null where no page exists
    * @private
    */
-  private generateNextCursor(
+  private generatePageCursors(
     products: Product[],
-    hasMore: boolean,
-    query: ProductListQuery
-  ): string | null {
-    if (!hasMore || products.length === 0) {
-      return null;
+    query: ProductListQuery,
+    neighbours: { hasNext: boolean; hasPrev: boolean }
+  ): { nextCursor: string | null; prevCursor: string | null } {
+    if (products.length === 0) {
+      return { nextCursor: null, prevCursor: null };
     }
 
-    const lastProduct = products[products.length - 1];
-    return this.encodeCursor(lastProduct, query.sortBy || 'createdAt');
+    return {
+      nextCursor: neighbours.hasNext
+        ? this.encodeCursor(products[products.length - 1], query, 'next')
+        : null,
+      prevCursor: neighbours.hasPrev
+        ? this.encodeCursor(products[0], query, 'prev')
+        : null,
+    };
   }
 
   /**
    * Encodes product cursor for pagination.
    * 
-   * @param product - Last product from current page
-   * @param sortBy - Sort field (currently unused, for future enhancement)
-   * @returns Base64-encoded cursor string
+   * @param product - Boundary product of the current page
+   * @param query - Query the page was produced for
+   * @param direction - Whether the cursor pages forwards or backwards
+   * @returns Base64url-encoded cursor string
    * @private
    * 
    * @remarks
-   * Current implementation: Encodes ID and timestamp
-   * Future: Could encode any sort field for flexible pagination
+   * Cursor carries the active sort column value plus id (tie-breaker),
+   * the sort direction and a fingerprint of the filters in effect.
    */
-  private encodeCursor(product: Product, sortBy: string): string {
-    void sortBy; // Reserved for future sort field support
-    
-    const cursorData = `${product.id}:${product.createdAt.getTime()}`;
-    return Buffer.from(cursorData).toString('base64');
+  private encodeCursor(
+    product: Product,
+    query: ProductListQuery,
+    direction: 'next' | 'prev'
+  ): string {
+    const cursor = this.buildCursor(product, query, direction);
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  /**
+   * Builds the cursor identifying a product's position in a query's ordering.
+   * @private
+   */
+  private buildCursor(
+    product: Product,
+    query: ProductListQuery,
+    direction: 'next' | 'prev'
+  ): ProductCursor {
+    const sortBy = query.sortBy || 'createdAt';
+    const rawValue = product[sortBy];
+
+    return {
+      sortBy,
+      sortOrder: query.sortOrder || 'desc',
+      direction,
+      value: DATE_SORT_FIELDS.includes(sortBy)
+        ? new Date(rawValue as Date).getTime()
+        : (rawValue as string | number),
+      id: product.id,
+      fingerprint: this.fingerprintFilters(query),
+    };
+  }
+
+  /**
+   * Decodes a cursor and checks it was issued for the current query.
+   * 
+   * @param encoded - Cursor string from the client
+   * @param query - Current query parameters
+   * @returns Decoded cursor
+   * @throws {BadRequestError} If the cursor is malformed or does not match the query
+   * @private
+   */
+  private decodeCursor(encoded: string, query: ProductListQuery): ProductCursor {
+    let cursor: ProductCursor;
+
+    try {
+      cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+    } catch (error) {
+      logger.warn('Failed to decode cursor', { cursor: encoded, error });
+      throw new BadRequestError('Invalid pagination cursor');
+    }
+
+    if (
+      !cursor ||
+      typeof cursor.id !== 'string' ||
+      typeof cursor.fingerprint !== 'string' ||
+      (cursor.direction !== 'next' && cursor.direction !== 'prev') ||
+      (typeof cursor.value !== 'string' && typeof cursor.value !== 'number')
+    ) {
+      throw new BadRequestError('Invalid pagination cursor');
+    }
+
+    if (
+      cursor.sortBy !== (query.sortBy || 'createdAt') ||
+      cursor.sortOrder !== (query.sortOrder || 'desc')
+    ) {
+      throw new BadRequestError('Pagination cursor does not match the requested sort');
+    }
+
+    if (cursor.fingerprint !== this.fingerprintFilters(query)) {
+      throw new BadRequestError('Pagination cursor was issued for different filters');
+    }
+
+    return cursor;
+  }
+
+  /**
+   * Encodes a history cursor.
+   * @private
+   */
+  private encodeHistoryCursor(cursor: ProductHistoryCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  /**
+   * Decodes a history cursor and checks it belongs to the product.
+   * 
+   * @throws {BadRequestError} If the cursor is malformed or was issued for another product
+   * @private
+   */
+  private decodeHistoryCursor(encoded: string, productId: string): ProductHistoryCursor {
+    let cursor: ProductHistoryCursor;
+
+    try {
+      cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+    } catch (error) {
+      logger.warn('Failed to decode history cursor', { cursor: encoded, error });
+      throw new BadRequestError('Invalid pagination cursor');
+    }
+
+    if (!cursor || typeof cursor.productId !== 'string' || !Number.isInteger(cursor.id)) {
+      throw new BadRequestError('Invalid pagination cursor');
+    }
+
+    if (cursor.productId !== productId) {
+      throw new BadRequestError('Pagination cursor was issued for a different product');
+    }
+
+    return cursor;
+  }
+
+  /**
+   * Computes a stable hash of the filters that shape the result set.
+   * 
+   * @param query - Product list query parameters
+   * @returns Short hex fingerprint
+   * @private
+   */
+  private fingerprintFilters(query: ProductListQuery): string {
+    const filters = Object.entries(query)
+      .filter(([key, value]) => !NON_FILTER_QUERY_KEYS.includes(key) && value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify(filters))
+      .digest('hex')
+      .slice(0, 16);
   }
 }
@@ -0,0 +1,194 @@
+import { ProductImportService } from './productImport.service';
+import { ProductService } from './product.service';
+import { ProductRepository } from '../repositories/product.repository';
+import { ProductImportRepository } from '../repositories/productImport.repository';
+import { ProductImportFormat, ProductImportJob } from '../types/productImport.types';
+import { UpsertProductInput } from '../types/product.types';
+
+jest.mock('./product.service');
+jest.mock('../repositories/product.repository');
+jest.mock('../repositories/productImport.repository');
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const PRODUCT_ID = '0b6f4c1e-3f1a-4c55-9a52-2f7d0c1e9a10';
+
+describe('ProductImportService', () => {
+  let service: ProductImportService;
+  let upsertMany: jest.Mock;
+  let markFinished: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (ProductService.prototype.writeTransaction as jest.Mock).mockImplementation(
+      async (callback: (connection: unknown, record: unknown) => Promise<unknown>) =>
+        callback({}, jest.fn())
+    );
+    (ProductRepository.prototype.lockByIds as jest.Mock).mockResolvedValue([]);
+    (ProductImportRepository.prototype.findById as jest.Mock).mockResolvedValue({} as ProductImportJob);
+
+    upsertMany = ProductRepository.prototype.upsertMany as jest.Mock;
+    markFinished = ProductImportRepository.prototype.markFinished as jest.Mock;
+    service = new ProductImportService();
+  });
+
+  /**
+   * Runs an import to completion and returns the rows passed to upsertMany.
+   */
+  const runImport = async (content: string, format: ProductImportFormat): Promise<UpsertProductInput[]> => {
+    await service.startImport(content, format, { actor: 'admin', requestId: 'req-1' });
+
+    // Processing continues in the background after startImport resolves
+    while (markFinished.mock.calls.length === 0) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    return upsertMany.mock.calls.flatMap(([, products]) => products);
+  };
+
+  it('leaves columns missing from the CSV header undefined', async () => {
+    const [product] = await runImport(`id,name,price\n${PRODUCT_ID},Chair,10`, 'csv');
+
+    expect(product).toEqual({ id: PRODUCT_ID, name: 'Chair', price: 10 });
+    expect(product).not.toHaveProperty('stock', 0);
+  });
+
+  it('treats empty CSV fields as not provided', async () => {
+    const [product] = await runImport(
+      `id,name,description,price,category,stock\n${PRODUCT_ID},Chair,,10,,`,
+      'csv'
+    );
+
+    expect(product.description).toBeUndefined();
+    expect(product.category).toBeUndefined();
+    expect(product.stock).toBeUndefined();
+  });
+
+  it('keeps NDJSON nulls for description and category so they are cleared', async () => {
+    const [product] = await runImport(
+      JSON.stringify({ id: PRODUCT_ID, name: 'Chair', price: 10, description: null, category: null }),
+      'ndjson'
+    );
+
+    expect(product.description).toBeNull();
+    expect(product.category).toBeNull();
+    expect(product.stock).toBeUndefined();
+  });
+
+  it('passes provided columns through', async () => {
+    const [product] = await runImport(
+      `id,name,description,price,category,stock\n${PRODUCT_ID},Chair,Oak,10,furniture,4`,
+      'csv'
+    );
+
+    expect(product).toEqual({
+      id: PRODUCT_ID,
+      name: 'Chair',
+      description: 'Oak',
+      price: 10,
+      category: 'furniture',
+      stock: 4,
+    });
+  });
+
+  describe('row validation', () => {
+    /** Runs an import and returns the row errors recorded by the last progress update */
+    const rejections = async (content: string, format: ProductImportFormat) => {
+      await runImport(content, format);
+      const calls = (ProductImportRepository.prototype.updateProgress as jest.Mock).mock.calls;
+      return calls[calls.length - 1][3];
+    };
+
+    it('generates an id for a row without one and coerces numeric strings', async () => {
+      const [product] = await runImport('name,price,stock\n  Chair  ,10.5,3', 'csv');
+
+      expect(product).toEqual({ id: expect.any(String), name: 'Chair', price: 10.5, stock: 3 });
+    });
+
+    it.each([
+      ['an id that is not a UUID', { id: 'p-1', name: 'Chair', price: 1 }, 'id must be a valid UUID'],
+      ['a blank name', { name: '   ', price: 1 }, 'name must be a string of 1-255 characters'],
+      [
+        'a name too long',
+        { name: 'x'.repeat(256), price: 1 },
+        'name must be a string of 1-255 characters',
+      ],
+      ['a negative price', { name: 'Chair', price: -1 }, 'price must be a number >= 0'],
+      ['a price that is not numeric', { name: 'Chair', price: '10 EUR' }, 'price must be a number >= 0'],
+      ['a missing price', { name: 'Chair' }, 'price must be a number >= 0'],
+      [
+        'a description that is not a string',
+        { name: 'Chair', price: 1, description: 5 },
+        'description must be a string',
+      ],
+      [
+        'a category too long',
+        { name: 'Chair', price: 1, category: 'x'.repeat(101) },
+        'category must be a string of at most 100 characters',
+      ],
+      ['a fractional stock', { name: 'Chair', price: 1, stock: 1.5 }, 'stock must be an integer >= 0'],
+      ['a negative stock', { name: 'Chair', price: 1, stock: -1 }, 'stock must be an integer >= 0'],
+    ])('rejects %s', async (_label, row, reason) => {
+      const errors = await rejections(JSON.stringify(row), 'ndjson');
+
+      expect(errors).toEqual([{ row: 1, errors: [reason] }]);
+      expect(upsertMany).not.toHaveBeenCalled();
+    });
+
+    it('reports every problem of a row and keeps importing the valid ones', async () => {
+      const errors = await rejections(
+        [
+          JSON.stringify({ id: 'nope', name: '', price: -1 }),
+          JSON.stringify({ name: 'Chair', price: 10 }),
+          'not json',
+          '[1, 2]',
+        ].join('\n'),
+        'ndjson'
+      );
+
+      expect(errors).toEqual([
+        {
+          row: 1,
+          errors: [
+            'id must be a valid UUID',
+            'name must be a string of 1-255 characters',
+            'price must be a number >= 0',
+          ],
+        },
+        { row: 3, errors: [expect.stringMatching(/^Invalid JSON: /)] },
+        { row: 4, errors: ['Line must be a JSON object'] },
+      ]);
+      expect(upsertMany.mock.calls.flatMap(([, products]) => products)).toEqual([
+        expect.objectContaining({ name: 'Chair' }),
+      ]);
+    });
+
+    it('rejects a CSV record with the wrong number of fields', async () => {
+      const errors = await rejections('name,price\nChair,10,extra\nDesk,20', 'csv');
+
+      expect(errors).toEqual([{ row: 1, errors: ['Expected 2 fields but found 3'] }]);
+    });
+
+    it('ignores unknown CSV columns and matches header names case-insensitively', async () => {
+      const [product] = await runImport(' Name ,PRICE,colour\nChair,10,red', 'csv');
+
+      expect(product).toEqual({ id: expect.any(String), name: 'Chair', price: 10 });
+    });
+
+    it.each([
+      ['an empty file', '', 'CSV file is empty'],
+      [
+        'a header without price',
+        'name,stock\nChair,1',
+        'CSV header must include name and price columns',
+      ],
+      ['an unterminated quote', 'name,price\n"Chair,10', 'Unterminated quoted field in CSV'],
+    ])('fails the import on %s', async (_label, content, reason) => {
+      await runImport(content, 'csv');
+
+      expect(markFinished).toHaveBeenCalledWith(expect.any(String), 'failed', reason);
+    });
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * Bulk Product Import Service
+ * 
+ * Implements catalogue ingestion from supplier files:
+ * - CSV and NDJSON parsing
+ * - Per-row validation against the Product shape
+ * - Chunked upserts, each chunk in its own transaction with its audit
+ *   entries and price changes
+ * - Job progress and per-row error reporting
+ * 
+ * @module services/productImport.service
+ */
+
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
+import { ProductRepository } from '../repositories/product.repository';
+import { ProductImportRepository } from '../repositories/productImport.repository';
+import { ProductService } from './product.service';
+import { Product, UpsertProductInput } from '../types/product.types';
+import { AuditContext, NewProductAuditEntry } from '../types/productAudit.types';
+import {
+  ProductImportFormat,
+  ProductImportJob,
+  ProductImportRowError,
+} from '../types/productImport.types';
+import { NotFoundError } from '../types/errors';
+import { config } from '../config';
+import { parseCsv } from '../utils/csv';
+import { logger } from '../utils/logger';
+
+/** CSV columns recognised in import files (others are ignored) */
+const IMPORT_COLUMNS: ReadonlyArray<string> = ['id', 'name', 'description', 'price', 'category', 'stock'];
+
+/** Maximum product name length (matches products.name) */
+const MAX_NAME_LENGTH = 255;
+
+/** Maximum category length (matches products.category) */
+const MAX_CATEGORY_LENGTH = 100;
+
+/** Raw row as read from the file, before validation */
+type RawImportRow = Record<string, unknown>;
+
+/**
+ * Service for bulk product imports.
+ * 
+ * @class ProductImportService
+ * @description Accepts a file, records a job and processes it in the
+ * background so large files do not hold the HTTP request open.
+ */
+export class ProductImportService {
+  private readonly productRepository: ProductRepository;
+  private readonly importRepository: ProductImportRepository;
+  private readonly productService: ProductService;
+
+  constructor() {
+    this.productRepository = new ProductRepository();
+    this.importRepository = new ProductImportRepository();
+    this.productService = new ProductService();
+  }
+
+  /**
+   * Registers an import job and starts processing it in the background.
+   * 
+   * @param content - Raw file content
+   * @param format - File format
+   * @param context - Actor and request id recorded in the audit trail for every row
+   * @returns Promise resolving to the pending job
+   */
+  public async startImport(
+    content: string,
+    format: ProductImportFormat,
+    context: AuditContext
+  ): Promise<ProductImportJob> {
+    const id = uuidv4();
+    await this.importRepository.create(id, format);
+
+    logger.info('Product import queued', { id, format, bytes: Buffer.byteLength(content) });
+
+    // Processing outlives the request - failures are recorded on the job
+    this.processImport(id, content, format, context).catch((error) => {
+      logger.error('Product import crashed', { id, error });
+    });
+
+    return await this.getImport(id);
+  }
+
+  /**
+   * Retrieves an import job with its counters and row errors.
+   * 
+   * @param id - Job ID
+   * @throws {NotFoundError} If the job doesn't exist
+   */
+  public async getImport(id: string): Promise<ProductImportJob> {
+    const job = await this.importRepository.findById(id);
+    if (!job) {
+      throw new NotFoundError(`Import with ID ${id} not found`);
+    }
+    return job;
+  }
+
+  /**
+   * Parses, validates and upserts an import file.
+   * 
+   * @param id - Job ID
+   * @param content - Raw file content
+   * @param format - File format
+   * @param context - Audit context of the request that started the import
+   * @private
+   * 
+   * @remarks
+   * A chunk that fails in the database is rolled back and all its rows are
+   * rejected with the database error; later chunks still run.
+   */
+  private async processImport(
+    id: string,
+    content: string,
+    format: ProductImportFormat,
+    context: AuditContext
+  ): Promise<void> {
+    let rows: Array<RawImportRow | Error>;
+
+    try {
+      rows = format === 'csv' ? this.parseCsvRows(content) : this.parseNdjsonRows(content);
+    } catch (error) {
+      logger.warn('Product import file could not be parsed', { id, error });
+      await this.importRepository.markFinished(id, 'failed', (error as Error).message);
+      return;
+    }
+
+    await this.importRepository.markStarted(id, rows.length);
+
+    const errors: ProductImportRowError[] = [];
+    let accepted = 0;
+    let rejected = 0;
+
+    const reject = (row: number, reasons: string[]): void => {
+      rejected++;
+      if (errors.length < config.productImport.maxRowErrors) {
+        errors.push({ row, errors: reasons });
+      }
+    };
+
+    try {
+      for (let start = 0; start < rows.length; start += config.productImport.chunkSize) {
+        const chunk: Array<{ row: number; product: UpsertProductInput }> = [];
+
+        rows.slice(start, start + config.productImport.chunkSize).forEach((raw, offset) => {
+          const row = start + offset + 1;
+
+          if (raw instanceof Error) {
+            reject(row, [raw.message]);
+            return;
+          }
+
+          const { product, errors: rowErrors } = this.validateRow(raw);
+          if (product) {
+            chunk.push({ row, product });
+          } else {
+            reject(row, rowErrors);
+          }
+        });
+
+        if (chunk.length === 0) {
+          await this.importRepository.updateProgress(id, accepted, rejected, errors);
+          continue;
+        }
+
+        try {
+          await this.productService.writeTransaction(async (connection, record) => {
+            const ids = [...new Set(chunk.map((item) => item.product.id))];
+            const before = await this.productRepository.lockByIds(connection, ids);
+
+            await this.productRepository.upsertMany(connection, chunk.map((item) => item.product));
+
+            const after = await this.productRepository.lockByIds(connection, ids);
+            await record(this.buildAuditEntries(before, after, context));
+          });
+          accepted += chunk.length;
+        } catch (error) {
+          logger.error('Product import chunk failed', { id, start, error });
+          for (const item of chunk) {
+            reject(item.row, [`Database error: ${(error as Error).message}`]);
+          }
+        }
+
+        await this.importRepository.updateProgress(id, accepted, rejected, errors);
+      }
+
+      await this.importRepository.markFinished(id, 'completed');
+
+      logger.info('Product import completed', { id, total: rows.length, accepted, rejected });
+    } catch (error) {
+      logger.error('Product import failed', { id, error });
+      await this.importRepository.markFinished(id, 'failed', (error as Error).message);
+    } finally {
+      if (accepted > 0) {
+        await this.productService.invalidateAllProductCaches();
+      }
+    }
+  }
+
+  /**
+   * Pairs product states read before and after an upsert into audit entries.
+   * 
+   * @returns One create or update entry per product in `after`
+   * @private
+   */
+  private buildAuditEntries(
+    before: Product[],
+    after: Product[],
+    context: AuditContext
+  ): NewProductAuditEntry[] {
+    const previous = new Map(before.map((product) => [product.id, product]));
+
+    return after.map((product) => {
+      const existing = previous.get(product.id) ?? null;
+      return {
+        ...context,
+        productId: product.id,
+        action: existing ? 'update' : 'create',
+        before: existing,
+        after: product,
+      };
+    });
+  }
+
+  /**
+   * Parses CSV content into header-keyed rows.
+   * @throws {Error} If the file is empty or malformed
+   * @private
+   */
+  private parseCsvRows(content: string): Array<RawImportRow | Error> {
+    const [header, ...records] = parseCsv(content);
+    if (!header) {
+      throw new Error('CSV file is empty');
+    }
+
+    const columns = header.map((column) => column.trim().toLowerCase());
+    if (!columns.includes('name') || !columns.includes('price')) {
+      throw new Error('CSV header must include name and price columns');
+    }
+
+    return records.map((record) => {
+      if (record.length !== columns.length) {
+        return new Error(`Expected ${columns.length} fields but found ${record.length}`);
+      }
+
+      const row: RawImportRow = {};
+      columns.forEach((column, index) => {
+        // Empty CSV fields mean "not provided"
+        if (IMPORT_COLUMNS.includes(column) && record[index] !== '') {
+          row[column] = record[index];
+        }
+      });
+      return row;
+    });
+  }
+
+  /**
+   * Parses NDJSON content, one object per non-blank line.
+   * @private
+   */
+  private parseNdjsonRows(content: string): Array<RawImportRow | Error> {
+    return content
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== '')
+      .map((line) => {
+        try {
+          const value = JSON.parse(line);
+          if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            return new Error('Line must be a JSON object');
+          }
+          return value as RawImportRow;
+        } catch (error) {
+          return new Error(`Invalid JSON: ${(error as Error).message}`);
+        }
+      });
+  }
+
+  /**
+   * Validates a raw row against the Product shape.
+   * 
+   * @returns The normalized product, or the list of validation errors
+   * @private
+   * 
+   * @remarks
+   * Numeric fields accept numbers or numeric strings (CSV has no types).
+   * Rows without an id are inserted with a generated one. Description,
+   * category and stock stay undefined when not provided, so an update
+   * keeps their current values (an NDJSON null clears description or
+   * category; stock has no null).
+   */
+  private validateRow(raw: RawImportRow): { product?: UpsertProductInput; errors: string[] } {
+    const errors: string[] = [];
+
+    const invalidId = raw.id !== undefined && (typeof raw.id !== 'string' || !isUuid(raw.id));
+    if (invalidId) {
+      errors.push('id must be a valid UUID');
+    }
+
+    const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+    if (name.length === 0 || name.length > MAX_NAME_LENGTH) {
+      errors.push(`name must be a string of 1-${MAX_NAME_LENGTH} characters`);
+    }
+
+    if (raw.description !== undefined && raw.description !== null && typeof raw.description !== 'string') {
+      errors.push('description must be a string');
+    }
+
+    const price = this.toNumber(raw.price);
+    if (price === undefined || price < 0) {
+      errors.push('price must be a number >= 0');
+    }
+
+    if (
+      raw.category !== undefined &&
+      raw.category !== null &&
+      (typeof raw.category !== 'string' || raw.category.length > MAX_CATEGORY_LENGTH)
+    ) {
+      errors.push(`category must be a string of at most ${MAX_CATEGORY_LENGTH} characters`);
+    }
+
+    const stock = raw.stock === undefined || raw.stock === null ? undefined : this.toNumber(raw.stock);
+    if (raw.stock !== undefined && raw.stock !== null && (stock === undefined || stock < 0 || !Number.isInteger(stock))) {
+      errors.push('stock must be an integer >= 0');
+    }
+
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    return {
+      product: {
+        id: (raw.id as string | undefined) ?? uuidv4(),
+        name,
+        description: raw.description as string | null | undefined,
+        price: price as number,
+        category: raw.category as string | null | undefined,
+        stock,
+      },
+      errors,
+    };
+  }
+
+  /**
+   * Coerces a number or numeric string.
+   * @returns The number, or undefined if the value is not numeric
+   * @private
+   */
+  private toNumber(value: unknown): number | undefined {
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? value : undefined;
+    }
+    if (typeof value === 'string' && value.trim() !== '') {
+      const parsed = Number(value);
+      return Number.isFinite(parsed) ? parsed : undefined;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,197 @@
+import { ProductReservationService } from './productReservation.service';
+import { ProductService } from './product.service';
+import { ProductRepository } from '../repositories/product.repository';
+import { ProductReservationRepository } from '../repositories/productReservation.repository';
+import { Product } from '../types/product.types';
+import { ProductReservation } from '../types/productReservation.types';
+import { ConflictError } from '../types/errors';
+
+jest.mock('./product.service');
+jest.mock('../repositories/product.repository');
+jest.mock('../repositories/productReservation.repository');
+jest.mock('../infrastructure/database', () => ({
+  transaction: jest.fn(async (callback: (connection: unknown) => Promise<unknown>) => callback({})),
+}));
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const PRODUCT_ID = '0b6f4c1e-3f1a-4c55-9a52-2f7d0c1e9a10';
+
+/**
+ * In-memory stand-in for one product row and the reservations table. Like
+ * the conditional UPDATE in adjustStock, a decrement below zero changes
+ * nothing and returns null.
+ */
+let stock: number;
+const reservations = new Map<string, ProductReservation>();
+
+const productRow = (): Product => ({
+  id: PRODUCT_ID,
+  name: 'Monitor',
+  description: '',
+  price: 199,
+  category: 'electronics',
+  stock,
+  version: 1,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  deletedAt: null,
+});
+
+const mockRepositories = (): void => {
+  const products = ProductRepository.prototype;
+  const rows = ProductReservationRepository.prototype;
+
+  (products.lockById as jest.Mock).mockImplementation(async () => productRow());
+  (products.adjustStock as jest.Mock).mockImplementation(async (_connection, _id, delta: number) => {
+    if (stock + delta < 0) {
+      return null;
+    }
+    stock += delta;
+    return productRow();
+  });
+
+  (rows.create as jest.Mock).mockImplementation(
+    async (_connection, id: string, productId: string, quantity: number, ttlSeconds: number) => {
+      const now = new Date();
+      reservations.set(id, {
+        id,
+        productId,
+        quantity,
+        status: 'active',
+        expiresAt: new Date(now.getTime() + ttlSeconds * 1000),
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  );
+  const find = async (...args: unknown[]) => {
+    const reservation = reservations.get(args[args.length - 1] as string);
+    return reservation ? { ...reservation } : null;
+  };
+  (rows.findById as jest.Mock).mockImplementation(find);
+  (rows.lockById as jest.Mock).mockImplementation(find);
+  (rows.finish as jest.Mock).mockImplementation(
+    async (_connection, id: string, status: ProductReservation['status'], requireUnexpired = false) => {
+      const reservation = reservations.get(id);
+      if (
+        !reservation ||
+        reservation.status !== 'active' ||
+        (requireUnexpired && reservation.expiresAt.getTime() <= Date.now())
+      ) {
+        return false;
+      }
+      reservation.status = status;
+      return true;
+    }
+  );
+  (rows.findExpiredIds as jest.Mock).mockImplementation(async (batchSize: number) =>
+    [...reservations.values()]
+      .filter(({ status, expiresAt }) => status === 'active' && expiresAt.getTime() <= Date.now())
+      .slice(0, batchSize)
+      .map((reservation) => reservation.id)
+  );
+};
+
+describe('ProductReservationService', () => {
+  const context = { actor: 'checkout', requestId: 'req-1' };
+  let service: ProductReservationService;
+  let record: jest.Mock;
+
+  /** Moves a reservation's expiry into the past */
+  const expire = (id: string): void => {
+    (reservations.get(id) as ProductReservation).expiresAt = new Date(Date.now() - 1000);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stock = 5;
+    reservations.clear();
+    mockRepositories();
+
+    record = jest.fn();
+    (ProductService.prototype.writeTransaction as jest.Mock).mockImplementation(
+      async (callback: (connection: unknown, record: jest.Mock) => Promise<unknown>) => callback({}, record)
+    );
+    service = new ProductReservationService();
+  });
+
+  it('holds stock and records the movement', async () => {
+    const reservation = await service.reserve(PRODUCT_ID, { quantity: 3, ttlSeconds: 60 }, context);
+
+    expect(reservation).toMatchObject({ productId: PRODUCT_ID, quantity: 3, status: 'active' });
+    expect(stock).toBe(2);
+    expect(record).toHaveBeenCalledWith([
+      expect.objectContaining({ action: 'reserve', before: expect.objectContaining({ stock: 5 }) }),
+    ]);
+  });
+
+  it('rejects a reservation that would oversell with 409 and holds nothing', async () => {
+    await service.reserve(PRODUCT_ID, { quantity: 4 }, context);
+
+    const oversell = service.reserve(PRODUCT_ID, { quantity: 2 }, context);
+
+    await expect(oversell).rejects.toThrow(ConflictError);
+    await expect(oversell).rejects.toMatchObject({
+      statusCode: 409,
+      message: `Insufficient stock for product ${PRODUCT_ID} (requested 2, available 1)`,
+    });
+    expect(stock).toBe(1);
+    expect(reservations.size).toBe(1);
+  });
+
+  it('allows reserving exactly the remaining stock', async () => {
+    await service.reserve(PRODUCT_ID, { quantity: 5 }, context);
+
+    expect(stock).toBe(0);
+    await expect(service.reserve(PRODUCT_ID, { quantity: 1 }, context)).rejects.toThrow(ConflictError);
+  });
+
+  it('returns the stock of overdue reservations when they expire', async () => {
+    const overdue = await service.reserve(PRODUCT_ID, { quantity: 2 }, context);
+    const current = await service.reserve(PRODUCT_ID, { quantity: 1 }, context);
+    expire(overdue.id);
+
+    await expect(service.expireReservations()).resolves.toBe(1);
+
+    expect(stock).toBe(4);
+    expect(reservations.get(overdue.id)?.status).toBe('expired');
+    expect(reservations.get(current.id)?.status).toBe('active');
+    expect(record).toHaveBeenLastCalledWith([
+      expect.objectContaining({ action: 'release', actor: 'system:reservation-expiry' }),
+    ]);
+  });
+
+  it('skips an overdue reservation committed before the sweep locked it', async () => {
+    const reservation = await service.reserve(PRODUCT_ID, { quantity: 2 }, context);
+    expire(reservation.id);
+    (ProductReservationRepository.prototype.findExpiredIds as jest.Mock).mockResolvedValueOnce([
+      reservation.id,
+    ]);
+    (reservations.get(reservation.id) as ProductReservation).status = 'committed';
+
+    await expect(service.expireReservations()).resolves.toBe(0);
+    expect(stock).toBe(3);
+  });
+
+  it('refuses to commit a reservation past its expiry', async () => {
+    const reservation = await service.reserve(PRODUCT_ID, { quantity: 2 }, context);
+    expire(reservation.id);
+
+    await expect(service.commit(PRODUCT_ID, reservation.id)).rejects.toThrow(
+      `Reservation with ID ${reservation.id} has expired`
+    );
+  });
+
+  it('refuses to release a reservation that already expired', async () => {
+    const reservation = await service.reserve(PRODUCT_ID, { quantity: 2 }, context);
+    expire(reservation.id);
+    await service.expireReservations();
+
+    await expect(service.release(PRODUCT_ID, reservation.id, context)).rejects.toThrow(
+      `Reservation with ID ${reservation.id} is already expired`
+    );
+    expect(stock).toBe(5);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Inventory Reservation Service
+ *
+ * Implements stock holds for checkout:
+ * - Atomic stock decrement with oversell protection
+ * - Commit (decrement becomes permanent) and release (stock returned)
+ * - Expiry of abandoned reservations
+ * - Audit entries for every stock movement
+ *
+ * @module services/productReservation.service
+ */
+
+import { PoolConnection } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+import { transaction } from '../infrastructure/database';
+import { ProductRepository } from '../repositories/product.repository';
+import { ProductReservationRepository } from '../repositories/productReservation.repository';
+import { ProductService } from './product.service';
+import { AuditContext, NewProductAuditEntry } from '../types/productAudit.types';
+import {
+  CreateReservationInput,
+  ProductReservation,
+} from '../types/productReservation.types';
+import { ConflictError, NotFoundError } from '../types/errors';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+/** Actor recorded in the audit trail for expiry sweeps */
+const EXPIRY_ACTOR = 'system:reservation-expiry';
+
+/**
+ * Service for product stock reservations.
+ *
+ * @class ProductReservationService
+ * @description Holds stock for a cart until it is committed, released or
+ * expires. Every stock change shares a transaction with its reservation row
+ * and audit entry.
+ */
+export class ProductReservationService {
+  private readonly productRepository: ProductRepository;
+  private readonly reservationRepository: ProductReservationRepository;
+  private readonly productService: ProductService;
+
+  constructor() {
+    this.productRepository = new ProductRepository();
+    this.reservationRepository = new ProductReservationRepository();
+    this.productService = new ProductService();
+  }
+
+  /**
+   * Reserves stock for a product.
+   *
+   * @param productId - Product unique identifier
+   * @param input - Quantity and optional hold time
+   * @param context - Actor and request id for the audit trail
+   * @returns Promise resolving to the active reservation
+   * @throws {NotFoundError} If the product doesn't exist
+   * @throws {ConflictError} If there is not enough stock
+   */
+  public async reserve(
+    productId: string,
+    input: CreateReservationInput,
+    context: AuditContext
+  ): Promise<ProductReservation> {
+    const id = uuidv4();
+    const ttlSeconds = input.ttlSeconds ?? config.reservations.defaultTtlSeconds;
+
+    await this.productService.writeTransaction(async (connection, record) => {
+      const before = await this.productRepository.lockById(connection, productId);
+      if (!before) {
+        throw new NotFoundError(`Product with ID ${productId} not found`);
+      }
+
+      // Conditional UPDATE - null means the decrement would oversell
+      const after = await this.productRepository.adjustStock(connection, productId, -input.quantity);
+      if (!after) {
+        throw new ConflictError(
+          `Insufficient stock for product ${productId} (requested ${input.quantity}, available ${before.stock})`
+        );
+      }
+
+      await this.reservationRepository.create(connection, id, productId, input.quantity, ttlSeconds);
+      await record([{ ...context, productId, action: 'reserve', before, after }]);
+    });
+
+    await this.productService.invalidateProductCache(productId);
+
+    logger.info('Stock reserved', {
+      id,
+      productId,
+      quantity: input.quantity,
+      ttlSeconds,
+      requestId: context.requestId,
+    });
+
+    return await this.getReservation(productId, id);
+  }
+
+  /**
+   * Retrieves a reservation.
+   *
+   * @param productId - Product the reservation must belong to
+   * @param id - Reservation ID
+   * @throws {NotFoundError} If no such reservation exists for the product
+   */
+  public async getReservation(productId: string, id: string): Promise<ProductReservation> {
+    const reservation = await this.reservationRepository.findById(id);
+    if (!reservation || reservation.productId !== productId) {
+      throw new NotFoundError(`Reservation with ID ${id} not found`);
+    }
+    return reservation;
+  }
+
+  /**
+   * Commits a reservation, making its stock decrement permanent.
+   *
+   * @param productId - Product the reservation must belong to
+   * @param id - Reservation ID
+   * @returns Promise resolving to the committed reservation
+   * @throws {NotFoundError} If no such reservation exists for the product
+   * @throws {ConflictError} If the reservation is no longer active or has expired
+   */
+  public async commit(productId: string, id: string): Promise<ProductReservation> {
+    await transaction(async (connection) => {
+      await this.lockActive(connection, productId, id);
+
+      const committed = await this.reservationRepository.finish(connection, id, 'committed', true);
+      if (!committed) {
+        throw new ConflictError(`Reservation with ID ${id} has expired`);
+      }
+    });
+
+    logger.info('Reservation committed', { id, productId });
+    return await this.getReservation(productId, id);
+  }
+
+  /**
+   * Releases a reservation and returns its stock.
+   *
+   * @param productId - Product the reservation must belong to
+   * @param id - Reservation ID
+   * @param context - Actor and request id for the audit trail
+   * @returns Promise resolving to the released reservation
+   * @throws {NotFoundError} If no such reservation exists for the product
+   * @throws {ConflictError} If the reservation is no longer active
+   */
+  public async release(
+    productId: string,
+    id: string,
+    context: AuditContext
+  ): Promise<ProductReservation> {
+    await this.productService.writeTransaction(async (connection, record) => {
+      const reservation = await this.lockActive(connection, productId, id);
+      await this.returnStock(connection, record, reservation, 'released', context);
+    });
+
+    await this.productService.invalidateProductCache(productId);
+
+    logger.info('Reservation released', { id, productId, requestId: context.requestId });
+    return await this.getReservation(productId, id);
+  }
+
+  /**
+   * Expires every overdue active reservation and returns its stock.
+   *
+   * @returns Promise resolving to the number of reservations expired
+   *
+   * @remarks
+   * Each reservation is released in its own transaction; one that was
+   * committed or released in the meantime is skipped.
+   */
+  public async expireReservations(): Promise<number> {
+    const context: AuditContext = { actor: EXPIRY_ACTOR, requestId: uuidv4() };
+    const batchSize = config.reservations.expiryBatchSize;
+    let expired = 0;
+    let ids: string[];
+
+    do {
+      ids = await this.reservationRepository.findExpiredIds(batchSize);
+
+      for (const id of ids) {
+        const productId = await this.productService.writeTransaction(async (connection, record) => {
+          const reservation = await this.reservationRepository.lockById(connection, id);
+          if (!reservation || reservation.status !== 'active') {
+            return null;
+          }
+
+          await this.returnStock(connection, record, reservation, 'expired', context);
+          return reservation.productId;
+        });
+
+        if (productId) {
+          expired++;
+          await this.productService.invalidateProductCache(productId);
+        }
+      }
+    } while (ids.length === batchSize);
+
+    if (expired > 0) {
+      logger.info('Expired reservations released', { expired, requestId: context.requestId });
+    }
+
+    return expired;
+  }
+
+  /**
+   * Locks a reservation and checks it is active and belongs to the product.
+   *
+   * @throws {NotFoundError} If no such reservation exists for the product
+   * @throws {ConflictError} If the reservation is no longer active
+   * @private
+   */
+  private async lockActive(
+    connection: PoolConnection,
+    productId: string,
+    id: string
+  ): Promise<ProductReservation> {
+    const reservation = await this.reservationRepository.lockById(connection, id);
+    if (!reservation || reservation.productId !== productId) {
+      throw new NotFoundError(`Reservation with ID ${id} not found`);
+    }
+
+    if (reservation.status !== 'active') {
+      throw new ConflictError(`Reservation with ID ${id} is already ${reservation.status}`);
+    }
+
+    return reservation;
+  }
+
+  /**
+   * Finishes a locked active reservation and adds its quantity back to stock.
+   *
+   * @remarks
+   * A product purged since the reservation was made has no row left to
+   * return stock to; the reservation is still finished.
+   * @private
+   */
+  private async returnStock(
+    connection: PoolConnection,
+    record: (entries: NewProductAuditEntry[]) => Promise<void>,
+    reservation: ProductReservation,
+    status: 'released' | 'expired',
+    context: AuditContext
+  ): Promise<void> {
+    await this.reservationRepository.finish(connection, reservation.id, status);
+
+    const before = await this.productRepository.lockById(connection, reservation.productId, true);
+    if (!before) {
+      return;
+    }
+
+    const after = await this.productRepository.adjustStock(
+      connection,
+      reservation.productId,
+      reservation.quantity
+    );
+
+    await record([
+      { ...context, productId: reservation.productId, action: 'release', before, after },
+    ]);
+  }
+}
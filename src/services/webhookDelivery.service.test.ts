@@ -0,0 +1,130 @@
+import axios from 'axios';
+import { WebhookDeliveryService } from './webhookDelivery.service';
+import { WebhookDeadLetterRepository } from '../repositories/webhookDeadLetter.repository';
+import { WebhookDeliveryRepository } from '../repositories/webhookDelivery.repository';
+import { WebhookSubscriptionRepository } from '../repositories/webhookSubscription.repository';
+import { WebhookDelivery } from '../types/webhook.types';
+import { ConflictError } from '../types/errors';
+import { config } from '../config';
+
+jest.mock('axios');
+jest.mock('../repositories/webhookDeadLetter.repository');
+jest.mock('../repositories/webhookDelivery.repository');
+jest.mock('../repositories/webhookSubscription.repository');
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const delivery = (id: number, attempts: number): WebhookDelivery => ({
+  id,
+  target: { kind: 'subscription', subscriptionId: 'sub-1' },
+  event: { id: `evt-${id}`, type: 'product.updated', createdAt: '2026-01-01T00:00:00.000Z', data: {} },
+  attempts,
+});
+
+describe('WebhookDeliveryService.drainQueue', () => {
+  const deliveries = WebhookDeliveryRepository.prototype;
+  const deadLetters = WebhookDeadLetterRepository.prototype;
+  const post = axios.post as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (WebhookSubscriptionRepository.prototype.findRecordById as jest.Mock).mockResolvedValue({
+      id: 'sub-1',
+      url: 'https://example.com/hook',
+      secret: 'secret',
+      active: true,
+    });
+  });
+
+  it('marks a sent delivery as delivered', async () => {
+    (deliveries.claimDue as jest.Mock).mockResolvedValue([delivery(1, 1)]);
+    post.mockResolvedValue({ status: 200 });
+
+    await expect(new WebhookDeliveryService().drainQueue()).resolves.toBe(1);
+
+    expect(deliveries.markDelivered).toHaveBeenCalledWith(1);
+  });
+
+  it('schedules a retry with backoff while attempts remain', async () => {
+    (deliveries.claimDue as jest.Mock).mockResolvedValue([delivery(1, 2)]);
+    post.mockRejectedValue(new Error('socket hang up'));
+
+    await new WebhookDeliveryService().drainQueue();
+
+    expect(deliveries.scheduleRetry).toHaveBeenCalledWith(
+      1,
+      config.webhookDelivery.retryDelay * 2,
+      'socket hang up'
+    );
+    expect(deliveries.markDead).not.toHaveBeenCalled();
+  });
+
+  it('keeps the claim and moves on when the outcome of a delivery cannot be recorded', async () => {
+    const attempts = config.webhookDelivery.retryAttempts;
+    (deliveries.claimDue as jest.Mock).mockResolvedValue([delivery(1, attempts), delivery(2, 1)]);
+    post.mockRejectedValueOnce(new Error('socket hang up')).mockResolvedValueOnce({ status: 200 });
+    (deadLetters.create as jest.Mock).mockRejectedValueOnce(new Error('Connection lost'));
+
+    await expect(new WebhookDeliveryService().drainQueue()).resolves.toBe(2);
+
+    // Left pending, so it comes due again when its lease runs out
+    expect(deliveries.markDead).not.toHaveBeenCalled();
+    expect(deliveries.markDelivered).toHaveBeenCalledWith(2);
+  });
+
+  it('dead-letters a delivery once it runs out of attempts', async () => {
+    const attempts = config.webhookDelivery.retryAttempts;
+    (deliveries.claimDue as jest.Mock).mockResolvedValue([delivery(1, attempts)]);
+    post.mockRejectedValue(new Error('socket hang up'));
+
+    await new WebhookDeliveryService().drainQueue();
+
+    expect(deadLetters.create).toHaveBeenCalledWith(
+      'sub-1',
+      expect.objectContaining({ id: 'evt-1' }),
+      attempts,
+      'socket hang up'
+    );
+    expect(deliveries.markDead).toHaveBeenCalledWith(1, 'socket hang up');
+  });
+});
+
+describe('WebhookDeliveryService.replayDeadLetter', () => {
+  const deadLetters = WebhookDeadLetterRepository.prototype;
+  const deadLetter = {
+    id: 7,
+    subscriptionId: 'sub-1',
+    eventId: 'evt-7',
+    eventType: 'product.updated',
+    payload: delivery(7, 0).event,
+    attempts: 5,
+    lastError: 'socket hang up',
+    createdAt: new Date(),
+    replayedAt: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (deadLetters.findById as jest.Mock).mockResolvedValue(deadLetter);
+    (WebhookSubscriptionRepository.prototype.findRecordById as jest.Mock).mockResolvedValue({ id: 'sub-1' });
+  });
+
+  it('queues the event again for its subscription instead of sending it inline', async () => {
+    await new WebhookDeliveryService().replayDeadLetter(7);
+
+    expect(WebhookDeliveryRepository.prototype.requeue).toHaveBeenCalledWith({
+      target: { kind: 'subscription', subscriptionId: 'sub-1' },
+      event: deadLetter.payload,
+    });
+    expect(deadLetters.markReplayed).toHaveBeenCalledWith(7);
+    expect(axios.post).not.toHaveBeenCalled();
+  });
+
+  it('refuses a dead letter that was already replayed', async () => {
+    (deadLetters.findById as jest.Mock).mockResolvedValue({ ...deadLetter, replayedAt: new Date() });
+
+    await expect(new WebhookDeliveryService().replayDeadLetter(7)).rejects.toThrow(ConflictError);
+    expect(WebhookDeliveryRepository.prototype.requeue).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Outbound Webhook Delivery Service
+ * 
+ * Sends events to external endpoints:
+ * - Timestamped HMAC-signed bodies (same scheme as incoming webhooks)
+ * - Fan-out of events to matching subscriptions through stored deliveries,
+ *   kept until each is delivered or dead-lettered
+ * - Exponential-backoff retries of stored deliveries, classified like the
+ *   external API client's
+ * - Dead-lettering of deliveries that exhaust their retries, with replay
+ * 
+ * @module services/webhookDelivery.service
+ */
+
+import axios from 'axios';
+import { config } from '../config';
+import { WebhookDeadLetterRepository } from '../repositories/webhookDeadLetter.repository';
+import { WebhookDeliveryRepository } from '../repositories/webhookDelivery.repository';
+import { WebhookSubscriptionRepository } from '../repositories/webhookSubscription.repository';
+import {
+  NewWebhookDelivery,
+  WebhookDeadLetter,
+  WebhookDeadLetterQuery,
+  WebhookDelivery,
+  WebhookEvent,
+} from '../types/webhook.types';
+import { ConflictError, NotFoundError } from '../types/errors';
+import { isRetryableError } from '../utils/retry';
+import { logger } from '../utils/logger';
+import {
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_IDEMPOTENCY_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  buildSignatureHeader,
+} from '../utils/webhookSignature';
+
+/** Slack added to a claim's lease beyond its worst-case send time, in seconds */
+const CLAIM_LEASE_MARGIN_SECONDS = 30;
+
+/**
+ * Service for outbound webhook delivery.
+ * 
+ * @class WebhookDeliveryService
+ */
+export class WebhookDeliveryService {
+  private readonly subscriptionRepository: WebhookSubscriptionRepository;
+  private readonly deadLetterRepository: WebhookDeadLetterRepository;
+  private readonly deliveryRepository: WebhookDeliveryRepository;
+
+  constructor() {
+    this.subscriptionRepository = new WebhookSubscriptionRepository();
+    this.deadLetterRepository = new WebhookDeadLetterRepository();
+    this.deliveryRepository = new WebhookDeliveryRepository();
+  }
+
+  /**
+   * Builds a delivery of an event for every active subscription for its type.
+   * 
+   * @param event - Event to deliver (its id is reused by every subscription)
+   * @returns Promise resolving to the deliveries to queue
+   */
+  public async planDeliveries(event: WebhookEvent<unknown>): Promise<NewWebhookDelivery[]> {
+    const subscriptions = await this.subscriptionRepository.findActiveForEvent(event.type);
+
+    return subscriptions.map((subscription) => ({
+      target: { kind: 'subscription', subscriptionId: subscription.id },
+      event,
+    }));
+  }
+
+  /**
+   * Queues deliveries, in order, all or none.
+   * @param deliveries - Deliveries to send
+   */
+  public async enqueue(deliveries: NewWebhookDelivery[]): Promise<void> {
+    await this.deliveryRepository.createMany(deliveries);
+  }
+
+  /**
+   * Claims and sends up to one batch of due deliveries.
+   * 
+   * @returns Promise resolving to the number of deliveries attempted
+   * 
+   * @remarks
+   * A delivery whose outcome could not be recorded (or whose worker died)
+   * keeps its claim until the lease runs out, then comes due again. Sends
+   * are sequential, so the lease covers a timeout for every delivery in the
+   * batch.
+   */
+  public async drainQueue(): Promise<number> {
+    const { batchSize, timeout } = config.webhookDelivery;
+    const leaseSeconds = Math.ceil((batchSize * timeout) / 1000) + CLAIM_LEASE_MARGIN_SECONDS;
+    const deliveries = await this.deliveryRepository.claimDue(batchSize, leaseSeconds);
+
+    for (const delivery of deliveries) {
+      try {
+        await this.runDelivery(delivery);
+      } catch (error) {
+        logger.error('Webhook delivery outcome not recorded - will retry after its lease', {
+          id: delivery.id,
+          eventId: delivery.event.id,
+          target: delivery.target,
+          error,
+        });
+      }
+    }
+
+    return deliveries.length;
+  }
+
+  /**
+   * Deletes delivered and dead deliveries past the retention period.
+   * 
+   * @returns Promise resolving to the number of rows deleted
+   */
+  public async purgeFinished(): Promise<number> {
+    const batchSize = config.webhookDelivery.batchSize;
+    let total = 0;
+    let deleted: number;
+
+    do {
+      deleted = await this.deliveryRepository.deleteFinished(
+        config.webhookDelivery.retentionDays,
+        batchSize
+      );
+      total += deleted;
+    } while (deleted === batchSize);
+
+    return total;
+  }
+
+  /**
+   * Lists dead letters, newest first.
+   * @param filters - Subscription, replayed flag and limit
+   */
+  public async listDeadLetters(filters: WebhookDeadLetterQuery): Promise<WebhookDeadLetter[]> {
+    return await this.deadLetterRepository.findMany(filters);
+  }
+
+  /**
+   * Queues a dead-lettered event for delivery to its subscription again.
+   * 
+   * @param id - Dead letter ID
+   * @returns Promise resolving to the dead letter, marked as replayed
+   * @throws {NotFoundError} If the dead letter doesn't exist
+   * @throws {ConflictError} If it was already replayed or its subscription was deleted
+   * 
+   * @remarks
+   * The delivery gets a full set of retries from the queue workers; if they
+   * all fail, it is dead-lettered again as a new entry. The original event
+   * id is kept, so receivers that saw an earlier attempt deduplicate it.
+   */
+  public async replayDeadLetter(id: number): Promise<WebhookDeadLetter> {
+    const deadLetter = await this.deadLetterRepository.findById(id);
+    if (!deadLetter) {
+      throw new NotFoundError(`Dead letter with ID ${id} not found`);
+    }
+
+    if (deadLetter.replayedAt) {
+      throw new ConflictError(`Dead letter with ID ${id} was already replayed`);
+    }
+
+    const subscription = await this.subscriptionRepository.findRecordById(deadLetter.subscriptionId);
+    if (!subscription) {
+      throw new ConflictError(`Subscription ${deadLetter.subscriptionId} no longer exists`);
+    }
+
+    // Queued before it is marked, so a failure in between leaves it replayable
+    await this.deliveryRepository.requeue({
+      target: { kind: 'subscription', subscriptionId: subscription.id },
+      event: deadLetter.payload,
+    });
+    await this.deadLetterRepository.markReplayed(id);
+
+    logger.info('Dead letter queued for replay', {
+      id,
+      eventId: deadLetter.eventId,
+      subscriptionId: subscription.id,
+    });
+
+    return (await this.deadLetterRepository.findById(id)) as WebhookDeadLetter;
+  }
+
+  /**
+   * Makes one delivery attempt and records its outcome: delivered, retry
+   * scheduled, or dead.
+   * 
+   * @remarks
+   * Deliveries to a subscription deleted or deactivated since they were
+   * queued, and alerts once the alert receiver is unconfigured, are dropped.
+   * Low-stock alerts have no dead-letter list; a final failure is logged.
+   * A subscription's dead letter is written before the delivery is marked
+   * dead, so a failure in between retries the delivery rather than losing it.
+   * @private
+   */
+  private async runDelivery(delivery: WebhookDelivery): Promise<void> {
+    const { id, target, event, attempts } = delivery;
+    let url: string;
+    let secret: string;
+
+    if (target.kind === 'subscription') {
+      const subscription = await this.subscriptionRepository.findRecordById(target.subscriptionId);
+      if (!subscription || !subscription.active) {
+        logger.warn('Dropping webhook delivery to removed subscription', {
+          eventId: event.id,
+          subscriptionId: target.subscriptionId,
+        });
+        await this.deliveryRepository.markDead(id, 'Subscription removed or deactivated');
+        return;
+      }
+      url = subscription.url;
+      secret = subscription.secret;
+    } else {
+      if (!config.lowStock.webhookUrl || !config.lowStock.webhookSecret) {
+        logger.warn('Dropping low-stock alert - alert webhook is not configured', {
+          eventId: event.id,
+        });
+        await this.deliveryRepository.markDead(id, 'Low-stock alert webhook not configured');
+        return;
+      }
+      url = config.lowStock.webhookUrl;
+      secret = config.lowStock.webhookSecret;
+    }
+
+    // Only the send is guarded - a failure to record the outcome is not a failed send
+    let failure: Error | null = null;
+    try {
+      await this.postSigned(url, secret, event);
+    } catch (error) {
+      failure = error as Error;
+    }
+
+    if (!failure) {
+      await this.deliveryRepository.markDelivered(id);
+
+      logger.info('Webhook delivered', {
+        eventId: event.id,
+        eventType: event.type,
+        target,
+        attempts,
+      });
+      return;
+    }
+
+    const message = failure.message;
+
+    if (isRetryableError(failure) && attempts < config.webhookDelivery.retryAttempts) {
+      const delay = config.webhookDelivery.retryDelay * Math.pow(2, attempts - 1);
+      await this.deliveryRepository.scheduleRetry(id, delay, message);
+
+      logger.warn(`Webhook delivery failed, retrying in ${delay}ms`, {
+        eventId: event.id,
+        target,
+        attempt: attempts,
+        maxAttempts: config.webhookDelivery.retryAttempts,
+        error: message,
+      });
+      return;
+    }
+
+    if (target.kind === 'subscription') {
+      await this.deadLetterRepository.create(target.subscriptionId, event, attempts, message);
+    }
+    await this.deliveryRepository.markDead(id, message);
+
+    if (target.kind !== 'subscription') {
+      logger.error('Low-stock alert delivery failed', {
+        eventId: event.id,
+        attempts,
+        error: message,
+      });
+      return;
+    }
+
+    logger.error('Webhook delivery failed - dead-lettered', {
+      eventId: event.id,
+      eventType: event.type,
+      subscriptionId: target.subscriptionId,
+      attempts,
+      error: message,
+    });
+  }
+
+  /**
+   * Sends one signed event, once.
+   * 
+   * @throws The request error (classified by isRetryableError)
+   * @private
+   */
+  private async postSigned(url: string, secret: string, event: WebhookEvent<unknown>): Promise<void> {
+    const body = JSON.stringify(event);
+
+    // Sign the exact bytes sent, per attempt so the timestamp stays fresh
+    const headers = {
+      'Content-Type': 'application/json',
+      [WEBHOOK_SIGNATURE_HEADER]: buildSignatureHeader(body, secret),
+      [WEBHOOK_IDEMPOTENCY_HEADER]: event.id,
+      [WEBHOOK_EVENT_HEADER]: event.type,
+    };
+
+    await axios.post(url, body, { headers, timeout: config.webhookDelivery.timeout });
+  }
+}
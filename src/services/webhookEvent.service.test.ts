@@ -0,0 +1,242 @@
+import { WebhookEventService } from './webhookEvent.service';
+import { WebhookQueueRepository } from '../repositories/webhookQueue.repository';
+import { query } from '../infrastructure/database';
+import { IncomingWebhookEvent, WebhookEventHandler } from '../types/webhook.types';
+import { config } from '../config';
+
+jest.mock('../infrastructure/database', () => ({ query: jest.fn() }));
+jest.mock('../repositories/webhookQueue.repository');
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+/** In-memory stand-in for Redis; keys expire by Date.now(), so fake timers age them */
+const cache = new Map<string, { value: string; expiresAt: number }>();
+
+const live = (key: string) => {
+  const entry = cache.get(key);
+  if (entry && entry.expiresAt <= Date.now()) {
+    cache.delete(key);
+    return undefined;
+  }
+  return entry;
+};
+
+jest.mock('../infrastructure/redis', () => ({
+  cacheGet: jest.fn(async (key: string) => live(key)?.value ?? null),
+  cacheSet: jest.fn(async (key: string, value: string, ttl: number) => {
+    cache.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+  }),
+  cacheSetIfAbsent: jest.fn(async (key: string, value: string, ttl: number) => {
+    if (live(key)) {
+      return false;
+    }
+    cache.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+    return true;
+  }),
+  cacheExpire: jest.fn(async (key: string, ttl: number) => {
+    const entry = live(key);
+    if (entry) {
+      entry.expiresAt = Date.now() + ttl * 1000;
+    }
+    return !!entry;
+  }),
+  cacheDel: jest.fn(async (key: string) => {
+    cache.delete(key);
+  }),
+}));
+
+interface StoredRow {
+  id: number;
+  source: string;
+  eventId: string;
+  eventType: string;
+  payload: IncomingWebhookEvent;
+  status: string;
+  attempts: number;
+  lastError: string | null;
+}
+
+/**
+ * In-memory stand-in for the webhook_events table. Like mysql2 (which sets
+ * CLIENT_FOUND_ROWS), an ON DUPLICATE KEY UPDATE no-op reports one
+ * affected row.
+ */
+const rows: StoredRow[] = [];
+
+const fakeQuery = async (sql: string, params: any[] = []): Promise<any> => {
+  const find = (source: string, eventId: string) =>
+    rows.find((row) => row.source === source && row.eventId === eventId);
+
+  if (sql.includes('INSERT INTO webhook_events')) {
+    const [source, eventId, eventType, payload] = params;
+    if (find(source, eventId)) {
+      if (sql.includes('ON DUPLICATE KEY UPDATE')) {
+        return { affectedRows: 1 };
+      }
+      throw Object.assign(new Error('Duplicate entry'), { code: 'ER_DUP_ENTRY' });
+    }
+    rows.push({
+      id: rows.length + 1,
+      source,
+      eventId,
+      eventType,
+      payload: JSON.parse(payload),
+      status: 'received',
+      attempts: 0,
+      lastError: null,
+    });
+    return { affectedRows: 1 };
+  }
+
+  if (sql.includes('SELECT') && sql.includes('WHERE source = ? AND event_id = ?')) {
+    const row = find(params[0], params[1]);
+    return row ? [{ ...row }] : [];
+  }
+
+  if (sql.includes("SET status = 'received'")) {
+    const row = rows.find((candidate) => candidate.id === params[0]);
+    const reset = !!row && (!sql.includes("status <> 'processed'") || row.status !== 'processed');
+    if (reset) {
+      row.status = 'received';
+    }
+    return { affectedRows: reset ? 1 : 0 };
+  }
+
+  if (sql.includes("SET status = 'processing'")) {
+    const row = find(params[0], params[1]);
+    if (row) {
+      row.status = 'processing';
+      row.attempts++;
+    }
+    return { affectedRows: row ? 1 : 0 };
+  }
+
+  if (sql.includes("SET status = 'processed'")) {
+    const row = find(params[0], params[1]);
+    if (row) {
+      row.status = 'processed';
+    }
+    return { affectedRows: row ? 1 : 0 };
+  }
+
+  if (sql.includes("SET status = 'failed'")) {
+    const row = find(params[1], params[2]);
+    if (row) {
+      row.status = 'failed';
+      row.lastError = params[0];
+    }
+    return { affectedRows: row ? 1 : 0 };
+  }
+
+  throw new Error(`Unexpected query: ${sql}`);
+};
+
+describe('WebhookEventService', () => {
+  const event: IncomingWebhookEvent = {
+    source: 'default',
+    id: 'evt_1',
+    type: 'test.event',
+    data: {},
+  };
+
+  let service: WebhookEventService;
+  let handle: jest.Mock;
+  let enqueue: jest.Mock;
+
+  beforeEach(() => {
+    rows.length = 0;
+    cache.clear();
+    jest.clearAllMocks();
+    (query as jest.Mock).mockImplementation(fakeQuery);
+
+    service = new WebhookEventService();
+    handle = jest.fn().mockResolvedValue(undefined);
+    const handler: WebhookEventHandler<unknown> = {
+      type: 'test.event',
+      validate: (data) => ({ value: data, errors: [] }),
+      handle,
+    };
+    service.register(handler);
+
+    enqueue = (WebhookQueueRepository as jest.MockedClass<typeof WebhookQueueRepository>).mock
+      .instances[0].enqueue as jest.Mock;
+  });
+
+  it('processes an event sent twice only once when Redis has lost the processed marker', async () => {
+    await expect(service.accept(event, 'req-1')).resolves.toBe('accepted');
+    await expect(service.handleStored(event.source, event.id, 'req-1')).resolves.toBe('processed');
+
+    // Redis flushed or the idempotency key expired
+    cache.clear();
+
+    await expect(service.accept(event, 'req-2')).resolves.toBe('duplicate');
+    await expect(service.handleStored(event.source, event.id, 'req-2')).resolves.toBe('duplicate');
+
+    expect(handle).toHaveBeenCalledTimes(1);
+    expect(enqueue).toHaveBeenCalledTimes(1);
+    expect(rows).toHaveLength(1);
+  });
+
+  it('queues a failed event again when the sender retries it', async () => {
+    handle.mockRejectedValueOnce(new Error('Downstream unavailable'));
+
+    await service.accept(event, 'req-1');
+    await expect(service.handleStored(event.source, event.id, 'req-1')).rejects.toThrow(
+      'Downstream unavailable'
+    );
+    expect(rows[0].status).toBe('failed');
+
+    await expect(service.accept(event, 'req-2')).resolves.toBe('accepted');
+
+    expect(enqueue).toHaveBeenCalledTimes(2);
+    expect(enqueue).toHaveBeenLastCalledWith(
+      expect.objectContaining({ source: event.source, eventId: event.id, attempt: 1 })
+    );
+    expect(rows[0].status).toBe('received');
+
+    await expect(service.handleStored(event.source, event.id, 'req-2')).resolves.toBe('processed');
+    expect(rows[0].status).toBe('processed');
+  });
+
+  it('keeps a slow handler\'s claim past its TTL so the event is not run twice', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    try {
+      let finish: () => void = () => undefined;
+      const started = new Promise<void>((resolve) => {
+        handle.mockImplementationOnce(
+          () =>
+            new Promise<void>((done) => {
+              finish = done;
+              resolve();
+            })
+        );
+      });
+
+      await service.accept(event, 'req-1');
+      const first = service.handleStored(event.source, event.id, 'req-1');
+      await started;
+
+      // Well past the claim TTL, up to when the stale sweep queues the event again
+      await jest.advanceTimersByTimeAsync(config.webhookQueue.staleAfterSeconds * 1000);
+
+      await expect(service.handleStored(event.source, event.id, 'req-2')).resolves.toBe('in_progress');
+
+      finish();
+      await expect(first).resolves.toBe('processed');
+      expect(handle).toHaveBeenCalledTimes(1);
+      expect(jest.getTimerCount()).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('does not queue an event again while a worker is processing it', async () => {
+    await service.accept(event, 'req-1');
+    rows[0].status = 'processing';
+
+    await expect(service.accept(event, 'req-2')).resolves.toBe('accepted');
+
+    expect(enqueue).toHaveBeenCalledTimes(1);
+  });
+});
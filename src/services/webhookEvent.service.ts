@@ -0,0 +1,527 @@
+/**
+ * Incoming Webhook Event Service
+ * 
+ * Stores verified webhook events, queues them, and dispatches queued events
+ * to the handler registered for their type:
+ * - Durable event log with status, attempts and last error
+ * - Idempotency on the stored event id (Redis as a fast pre-check)
+ * - Atomic per-event claim so concurrent workers handle an event once
+ * - Per-type payload validation
+ * - Product and cache updates through the product service
+ * - Unknown types acknowledged and logged rather than dropped
+ * - Search, inspection and replay of stored events
+ * 
+ * @module services/webhookEvent.service
+ */
+
+import { WebhookEventRepository } from '../repositories/webhookEvent.repository';
+import { WebhookQueueRepository } from '../repositories/webhookQueue.repository';
+import { AuditContext } from '../types/productAudit.types';
+import {
+  IncomingWebhookEvent,
+  WebhookEventHandler,
+  WebhookAcceptOutcome,
+  WebhookEventCursor,
+  WebhookEventFilters,
+  WebhookEventListResponse,
+  WebhookEventQuery,
+  WebhookEventRecord,
+  WebhookEventSummary,
+  WebhookHandleOutcome,
+  WebhookProcessOutcome,
+  WebhookReplayResult,
+} from '../types/webhook.types';
+import { BadRequestError, ConflictError, NotFoundError } from '../types/errors';
+import {
+  cacheDel,
+  cacheExpire,
+  cacheGet,
+  cacheSet,
+  cacheSetIfAbsent,
+} from '../infrastructure/redis';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { ProductPriceChangedHandler } from './webhookHandlers/productPriceChanged.handler';
+import { InventoryAdjustedHandler } from './webhookHandlers/inventoryAdjusted.handler';
+import { CatalogSyncRequestedHandler } from './webhookHandlers/catalogSyncRequested.handler';
+
+/** Actor recorded in the audit trail for changes made by incoming webhooks (suffixed with the source) */
+const WEBHOOK_ACTOR = 'system:webhook';
+
+/** Default page size for event searches */
+const DEFAULT_PAGE_LIMIT = 50;
+
+/** Times a processing claim is renewed per WEBHOOK_PROCESSING_CLAIM_TTL while its handler runs */
+const CLAIM_RENEWALS_PER_TTL = 3;
+
+/** Redis value claiming an event id while a worker handles it */
+const PROCESSING_MARKER = 'processing';
+
+/** Redis value of an event id that was processed */
+const PROCESSED_MARKER = 'processed';
+
+/**
+ * Service routing incoming events to their handlers.
+ * 
+ * @class WebhookEventService
+ * @description Handlers for the built-in event types are registered in the
+ * constructor; further types plug in through `register`.
+ */
+export class WebhookEventService {
+  private readonly eventRepository: WebhookEventRepository;
+  private readonly queueRepository: WebhookQueueRepository;
+  private readonly handlers = new Map<string, WebhookEventHandler<any>>();
+
+  constructor() {
+    this.eventRepository = new WebhookEventRepository();
+    this.queueRepository = new WebhookQueueRepository();
+    this.register(new ProductPriceChangedHandler());
+    this.register(new InventoryAdjustedHandler());
+    this.register(new CatalogSyncRequestedHandler());
+  }
+
+  /**
+   * Registers the handler for an event type, replacing any previous one.
+   * 
+   * @param handler - Handler to register under `handler.type`
+   */
+  public register<T>(handler: WebhookEventHandler<T>): void {
+    this.handlers.set(handler.type, handler);
+  }
+
+  /**
+   * Lists the event types with a registered handler.
+   */
+  public getSupportedTypes(): string[] {
+    return [...this.handlers.keys()];
+  }
+
+  /**
+   * Stores a verified event and queues it for processing.
+   * 
+   * @param event - Verified incoming event
+   * @param requestId - Id of the receiving request, recorded with any product change
+   * @returns Promise resolving to 'duplicate' for an already processed
+   * event, otherwise 'accepted'
+   * @throws {BadRequestError} If the event data fails the handler's validation
+   * 
+   * @remarks
+   * The webhook_events row is the source of truth: an event is a duplicate
+   * once its row is 'processed', whatever Redis holds. A sender retrying an
+   * event that failed, or was stored but may have lost its job, has it
+   * queued again with a fresh set of attempts; an extra job for an event
+   * that is still queued only runs as a duplicate. An event a worker is
+   * processing is left alone (the stale sweep covers a crashed worker).
+   */
+  public async accept(
+    event: IncomingWebhookEvent,
+    requestId: string
+  ): Promise<WebhookAcceptOutcome> {
+    if ((await cacheGet(this.idempotencyCacheKey(event.source, event.id))) === PROCESSED_MARKER) {
+      logger.info('Webhook already processed (idempotent)', {
+        source: event.source,
+        eventId: event.id,
+      });
+      return 'duplicate';
+    }
+
+    // Reject bad data now - the sender can fix it, a retry cannot
+    this.validate(event);
+
+    const inserted = await this.eventRepository.insertIfAbsent(event);
+    if (!inserted) {
+      const existing = await this.eventRepository.findByEventId(event.source, event.id);
+      if (existing?.status === 'processed') {
+        await this.rememberProcessed(event);
+        logger.info('Webhook already processed (idempotent)', {
+          source: event.source,
+          eventId: event.id,
+        });
+        return 'duplicate';
+      }
+
+      if (
+        existing?.status === 'failed' ||
+        existing?.status === 'dead' ||
+        existing?.status === 'received'
+      ) {
+        await this.requeue(existing, false, requestId);
+      }
+      return 'accepted';
+    }
+
+    await this.queueRepository.enqueue({
+      source: event.source,
+      eventId: event.id,
+      requestId,
+      attempt: 1,
+    });
+
+    logger.info('Webhook event queued', {
+      source: event.source,
+      eventId: event.id,
+      eventType: event.type,
+      requestId,
+    });
+    return 'accepted';
+  }
+
+  /**
+   * Processes a stored event unless it was processed before.
+   * 
+   * @param source - Webhook source name
+   * @param eventId - Sender's event id
+   * @param requestId - Request id recorded with any product change
+   * @returns Promise resolving to 'duplicate' for an already processed event,
+   * 'in_progress' while another worker handles it, otherwise the processing
+   * outcome
+   * @throws {NotFoundError} If no such event is stored
+   * @throws {BadRequestError} If the event data fails the handler's validation
+   * 
+   * @remarks
+   * Handling starts only after an atomic SET NX claim on the event id, so
+   * two workers never both run the handler. The claim is renewed while the
+   * handler runs, so a slow handler keeps it however long it takes (the
+   * stale sweep may queue the event again meanwhile, but that job finds it
+   * in progress). A failed attempt releases the claim; a crashed one loses
+   * it after WEBHOOK_PROCESSING_CLAIM_TTL.
+   */
+  public async handleStored(
+    source: string,
+    eventId: string,
+    requestId: string
+  ): Promise<WebhookHandleOutcome> {
+    const record = await this.eventRepository.findByEventId(source, eventId);
+    if (!record) {
+      throw new NotFoundError(`Webhook event ${eventId} from ${source} not found`);
+    }
+
+    const event = record.payload;
+    const cacheKey = this.idempotencyCacheKey(event.source, event.id);
+
+    const claimed = await cacheSetIfAbsent(
+      cacheKey,
+      PROCESSING_MARKER,
+      config.webhook.processingClaimTTL
+    );
+
+    if (!claimed) {
+      // null: the holder released its claim since - the job is retried
+      const marker = await cacheGet(cacheKey);
+      if (marker === PROCESSING_MARKER || marker === null) {
+        return 'in_progress';
+      }
+      return 'duplicate';
+    }
+
+    try {
+      // Re-read under the claim - another worker may have finished meanwhile
+      const current = await this.eventRepository.findByEventId(source, eventId);
+      if (current?.status === 'processed') {
+        await this.rememberProcessed(event);
+        return 'duplicate';
+      }
+
+      await this.eventRepository.markProcessing(source, eventId);
+
+      const context: AuditContext = { actor: `${WEBHOOK_ACTOR}:${source}`, requestId };
+      let outcome: WebhookProcessOutcome;
+      const renewal = this.renewClaimWhileRunning(cacheKey, source, eventId);
+      try {
+        outcome = await this.process(event, context);
+      } catch (error) {
+        clearInterval(renewal);
+        await this.eventRepository.markFailed(source, eventId, (error as Error).message);
+        throw error;
+      }
+      // Stopped before the claim is released or replaced, so no renewal lands after
+      clearInterval(renewal);
+
+      await this.eventRepository.markProcessed(source, eventId);
+      await this.rememberProcessed(event);
+
+      return outcome;
+    } catch (error) {
+      // Release the claim so a retry can handle the event
+      await cacheDel(cacheKey);
+      throw error;
+    }
+  }
+
+  /**
+   * Searches stored events, newest first.
+   * 
+   * @param query - Filters, cursor and page size
+   * @returns Promise resolving to a page of events (without payloads)
+   * @throws {BadRequestError} If the cursor is invalid
+   */
+  public async listEvents(query: WebhookEventQuery): Promise<WebhookEventListResponse> {
+    const limit = query.limit || DEFAULT_PAGE_LIMIT;
+    const cursor = query.cursor ? this.decodeCursor(query.cursor) : undefined;
+
+    // Fetch one extra event to detect a further page
+    const events = await this.eventRepository.findMany(query, limit + 1, cursor?.id);
+
+    const hasMore = events.length > limit;
+    const data = hasMore ? events.slice(0, limit) : events;
+    const last = data[data.length - 1];
+
+    return {
+      success: true,
+      data,
+      pagination: {
+        nextCursor: hasMore && last ? this.encodeCursor({ id: last.id }) : null,
+        hasMore,
+        limit,
+      },
+    };
+  }
+
+  /**
+   * Retrieves a stored event with its payload and last error.
+   * 
+   * @param id - webhook_events row ID
+   * @throws {NotFoundError} If no such event is stored
+   */
+  public async getEvent(id: number): Promise<WebhookEventRecord> {
+    const event = await this.eventRepository.findById(id);
+    if (!event) {
+      throw new NotFoundError(`Webhook event with ID ${id} not found`);
+    }
+    return event;
+  }
+
+  /**
+   * Queues a stored event again, through the same worker pipeline as new events.
+   * 
+   * @param id - webhook_events row ID
+   * @param force - Also replay an event that was processed (its handler runs again)
+   * @param requestId - Id of the admin request, recorded with any product change
+   * @returns Promise resolving to the event as reset
+   * @throws {NotFoundError} If no such event is stored
+   * @throws {ConflictError} If the event was processed and force is not set
+   */
+  public async replayEvent(
+    id: number,
+    force: boolean,
+    requestId: string
+  ): Promise<WebhookEventRecord> {
+    const event = await this.getEvent(id);
+
+    if (!(await this.requeue(event, force, requestId))) {
+      throw new ConflictError(
+        `Webhook event with ID ${id} was already processed - replay with force to run it again`
+      );
+    }
+
+    return await this.getEvent(id);
+  }
+
+  /**
+   * Queues every stored event matching filters again, oldest first.
+   * 
+   * @param filters - Source, event id, type, status and received_at range
+   * @param options - force (also replay processed events), limit (events per
+   * call) and afterId (continue after a previous call)
+   * @param requestId - Id of the admin request, recorded with any product change
+   * @returns Promise resolving to the number of events queued and skipped,
+   * and where to continue
+   */
+  public async replayEvents(
+    filters: WebhookEventFilters,
+    options: { force: boolean; limit: number; afterId?: number },
+    requestId: string
+  ): Promise<WebhookReplayResult> {
+    // One extra event tells whether another call is needed
+    const events = await this.eventRepository.findManyAscending(
+      filters,
+      options.limit + 1,
+      options.afterId
+    );
+    const batch = events.slice(0, options.limit);
+
+    let queued = 0;
+    for (const event of batch) {
+      if (await this.requeue(event, options.force, requestId)) {
+        queued++;
+      }
+    }
+
+    const hasMore = events.length > options.limit;
+    logger.info('Webhook events replayed', { queued, filters, requestId });
+
+    return {
+      queued,
+      skipped: batch.length - queued,
+      nextAfterId: hasMore ? batch[batch.length - 1].id : null,
+    };
+  }
+
+  /**
+   * Resets a stored event and queues it.
+   * 
+   * @returns false if the event was processed and force is not set
+   * @private
+   */
+  private async requeue(
+    event: WebhookEventSummary,
+    force: boolean,
+    requestId: string
+  ): Promise<boolean> {
+    if (!(await this.eventRepository.resetForReplay(event.id, force))) {
+      return false;
+    }
+
+    // Drop the processed marker (never a live claim) so the worker runs it
+    const cacheKey = this.idempotencyCacheKey(event.source, event.eventId);
+    if ((await cacheGet(cacheKey)) === PROCESSED_MARKER) {
+      await cacheDel(cacheKey);
+    }
+
+    await this.queueRepository.enqueue({
+      source: event.source,
+      eventId: event.eventId,
+      requestId,
+      attempt: 1,
+    });
+
+    logger.info('Webhook event queued again', {
+      source: event.source,
+      eventId: event.eventId,
+      previousStatus: event.status,
+      requestId,
+    });
+    return true;
+  }
+
+  /**
+   * Checks an event's data against its handler's schema.
+   * 
+   * @throws {BadRequestError} If the data is invalid (unknown types always pass)
+   * @private
+   */
+  private validate<T>(event: IncomingWebhookEvent): { handler?: WebhookEventHandler<T>; value?: T } {
+    const handler: WebhookEventHandler<T> | undefined = this.handlers.get(event.type);
+    if (!handler) {
+      return {};
+    }
+
+    const { value, errors } = handler.validate(event.data);
+    if (errors.length > 0) {
+      throw new BadRequestError(`Invalid ${event.type} event: ${errors.join(', ')}`);
+    }
+
+    return { handler, value };
+  }
+
+  /**
+   * Validates an event against its handler's schema and runs the handler.
+   * 
+   * @param event - Verified incoming event
+   * @param context - Actor and request id recorded with any product change
+   * @returns Promise resolving to 'processed', or 'ignored' if no handler
+   * exists for the event type
+   * @throws {BadRequestError} If the event data fails the handler's validation
+   * 
+   * @remarks
+   * Errors thrown by the handler itself propagate, so the event is not
+   * marked processed and the queue retries it.
+   * @private
+   */
+  private async process(
+    event: IncomingWebhookEvent,
+    context: AuditContext
+  ): Promise<WebhookProcessOutcome> {
+    const { handler, value } = this.validate(event);
+
+    if (!handler) {
+      logger.warn('No handler for webhook event type - acknowledged without processing', {
+        source: event.source,
+        eventId: event.id,
+        eventType: event.type,
+        data: event.data,
+        requestId: context.requestId,
+      });
+      return 'ignored';
+    }
+
+    await handler.handle(value, context);
+
+    logger.info('Webhook event processed', {
+      source: event.source,
+      eventId: event.id,
+      eventType: event.type,
+      requestId: context.requestId,
+    });
+
+    return 'processed';
+  }
+
+  /**
+   * Replaces the claim on an event id with the processed marker.
+   * @private
+   */
+  private async rememberProcessed(event: IncomingWebhookEvent): Promise<void> {
+    await cacheSet(
+      this.idempotencyCacheKey(event.source, event.id),
+      PROCESSED_MARKER,
+      config.webhook.idempotencyTTL
+    );
+  }
+
+  /**
+   * Renews an event's processing claim until the returned timer is cleared.
+   * @private
+   */
+  private renewClaimWhileRunning(cacheKey: string, source: string, eventId: string): NodeJS.Timeout {
+    const claimTTL = config.webhook.processingClaimTTL;
+    const renewal = setInterval(() => {
+      cacheExpire(cacheKey, claimTTL).catch((error) => {
+        logger.warn('Failed to renew webhook processing claim', { source, eventId, error });
+      });
+    }, (claimTTL * 1000) / CLAIM_RENEWALS_PER_TTL);
+
+    // Never keep the process alive just for the renewal timer
+    renewal.unref();
+    return renewal;
+  }
+
+  /**
+   * Builds the Redis claim/pre-check key for an event (ids are unique per source).
+   * @private
+   */
+  private idempotencyCacheKey(source: string, eventId: string): string {
+    return `webhook:idempotency:${source}:${eventId}`;
+  }
+
+  /**
+   * Encodes an event list cursor as URL-safe base64 JSON.
+   * @private
+   */
+  private encodeCursor(cursor: WebhookEventCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  /**
+   * Decodes an event list cursor.
+   * 
+   * @throws {BadRequestError} If the cursor is malformed
+   * @private
+   */
+  private decodeCursor(encoded: string): WebhookEventCursor {
+    let cursor: WebhookEventCursor;
+
+    try {
+      cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+    } catch (error) {
+      logger.warn('Failed to decode webhook event cursor', { cursor: encoded, error });
+      throw new BadRequestError('Invalid pagination cursor');
+    }
+
+    if (!cursor || !Number.isInteger(cursor.id)) {
+      throw new BadRequestError('Invalid pagination cursor');
+    }
+
+    return cursor;
+  }
+}
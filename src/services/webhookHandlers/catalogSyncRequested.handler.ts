@@ -0,0 +1,79 @@
+/**
+ * catalog.sync_requested Handler
+ * 
+ * Drops cached product data after the upstream catalogue changed, so the
+ * next reads come from the database.
+ * 
+ * @module services/webhookHandlers/catalogSyncRequested.handler
+ */
+
+import { validate as isUuid } from 'uuid';
+import { ProductService } from '../product.service';
+import { AuditContext } from '../../types/productAudit.types';
+import {
+  CatalogSyncRequestedEventData,
+  WebhookEventHandler,
+  WebhookPayloadValidation,
+} from '../../types/webhook.types';
+import { logger } from '../../utils/logger';
+
+/** Maximum product ids in one sync request (each costs a cache SCAN; larger syncs omit productIds) */
+const MAX_SYNC_PRODUCT_IDS = 100;
+
+/**
+ * Handler for catalog.sync_requested events.
+ * 
+ * @class CatalogSyncRequestedHandler
+ */
+export class CatalogSyncRequestedHandler implements WebhookEventHandler<CatalogSyncRequestedEventData> {
+  public readonly type = 'catalog.sync_requested';
+
+  private readonly productService: ProductService;
+
+  constructor() {
+    this.productService = new ProductService();
+  }
+
+  /**
+   * Checks productIds, when given, is a bounded list of UUIDs.
+   */
+  public validate(data: unknown): WebhookPayloadValidation<CatalogSyncRequestedEventData> {
+    const raw = (data ?? {}) as Record<string, unknown>;
+
+    if (raw.productIds === undefined) {
+      return { value: {}, errors: [] };
+    }
+
+    const valid =
+      Array.isArray(raw.productIds) &&
+      raw.productIds.length > 0 &&
+      raw.productIds.length <= MAX_SYNC_PRODUCT_IDS &&
+      raw.productIds.every((id) => typeof id === 'string' && isUuid(id));
+
+    if (!valid) {
+      return {
+        errors: [`data.productIds must be an array of 1-${MAX_SYNC_PRODUCT_IDS} UUIDs`],
+      };
+    }
+
+    return { value: { productIds: raw.productIds as string[] }, errors: [] };
+  }
+
+  /**
+   * Invalidates the listed products, or every cached product and list.
+   */
+  public async handle(data: CatalogSyncRequestedEventData, context: AuditContext): Promise<void> {
+    if (data.productIds) {
+      for (const id of new Set(data.productIds)) {
+        await this.productService.invalidateProductCache(id);
+      }
+    } else {
+      await this.productService.invalidateAllProductCaches();
+    }
+
+    logger.info('Catalog sync applied', {
+      products: data.productIds?.length ?? 'all',
+      requestId: context.requestId,
+    });
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * inventory.adjusted Handler
+ * 
+ * Applies a warehouse stock correction to a product.
+ * 
+ * @module services/webhookHandlers/inventoryAdjusted.handler
+ */
+
+import { validate as isUuid } from 'uuid';
+import { ProductService } from '../product.service';
+import { AuditContext } from '../../types/productAudit.types';
+import {
+  InventoryAdjustedEventData,
+  WebhookEventHandler,
+  WebhookPayloadValidation,
+} from '../../types/webhook.types';
+
+/**
+ * Handler for inventory.adjusted events.
+ * 
+ * @class InventoryAdjustedHandler
+ * @description Adjusts stock by a delta rather than setting it, so the
+ * correction composes with reservations made in the meantime.
+ */
+export class InventoryAdjustedHandler implements WebhookEventHandler<InventoryAdjustedEventData> {
+  public readonly type = 'inventory.adjusted';
+
+  private readonly productService: ProductService;
+
+  constructor() {
+    this.productService = new ProductService();
+  }
+
+  /**
+   * Checks the event carries a product id and a non-zero integer delta.
+   */
+  public validate(data: unknown): WebhookPayloadValidation<InventoryAdjustedEventData> {
+    const raw = (data ?? {}) as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (typeof raw.productId !== 'string' || !isUuid(raw.productId)) {
+      errors.push('data.productId must be a valid UUID');
+    }
+
+    if (typeof raw.delta !== 'number' || !Number.isInteger(raw.delta) || raw.delta === 0) {
+      errors.push('data.delta must be a non-zero integer');
+    }
+
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    return {
+      value: { productId: raw.productId as string, delta: raw.delta as number },
+      errors,
+    };
+  }
+
+  /**
+   * Adds the delta to the product's stock.
+   * @throws {NotFoundError} If the product doesn't exist
+   * @throws {ConflictError} If stock would go below zero
+   */
+  public async handle(data: InventoryAdjustedEventData, context: AuditContext): Promise<void> {
+    await this.productService.adjustStock(data.productId, data.delta, context);
+  }
+}
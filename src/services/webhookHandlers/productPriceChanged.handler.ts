@@ -0,0 +1,66 @@
+/**
+ * product.price_changed Handler
+ * 
+ * Applies a supplier price change to a product.
+ * 
+ * @module services/webhookHandlers/productPriceChanged.handler
+ */
+
+import { validate as isUuid } from 'uuid';
+import { ProductService } from '../product.service';
+import { AuditContext } from '../../types/productAudit.types';
+import {
+  PriceChangedEventData,
+  WebhookEventHandler,
+  WebhookPayloadValidation,
+} from '../../types/webhook.types';
+
+/**
+ * Handler for product.price_changed events.
+ * 
+ * @class ProductPriceChangedHandler
+ * @description Goes through ProductService.updateProduct, so the change is
+ * audited, lands in the price history and invalidates the product's cache.
+ */
+export class ProductPriceChangedHandler implements WebhookEventHandler<PriceChangedEventData> {
+  public readonly type = 'product.price_changed';
+
+  private readonly productService: ProductService;
+
+  constructor() {
+    this.productService = new ProductService();
+  }
+
+  /**
+   * Checks the event carries a product id and a non-negative price.
+   */
+  public validate(data: unknown): WebhookPayloadValidation<PriceChangedEventData> {
+    const raw = (data ?? {}) as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (typeof raw.productId !== 'string' || !isUuid(raw.productId)) {
+      errors.push('data.productId must be a valid UUID');
+    }
+
+    if (typeof raw.price !== 'number' || !Number.isFinite(raw.price) || raw.price < 0) {
+      errors.push('data.price must be a number >= 0');
+    }
+
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    return {
+      value: { productId: raw.productId as string, price: raw.price as number },
+      errors,
+    };
+  }
+
+  /**
+   * Sets the product's price.
+   * @throws {NotFoundError} If the product doesn't exist
+   */
+  public async handle(data: PriceChangedEventData, context: AuditContext): Promise<void> {
+    await this.productService.updateProduct(data.productId, { price: data.price }, context);
+  }
+}
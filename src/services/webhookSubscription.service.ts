@@ -0,0 +1,82 @@
+/**
+ * Webhook Subscription Service
+ * 
+ * Manages the external endpoints that receive product events.
+ * 
+ * @module services/webhookSubscription.service
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookSubscriptionRepository } from '../repositories/webhookSubscription.repository';
+import {
+  CreateWebhookSubscriptionInput,
+  WebhookSubscription,
+} from '../types/webhook.types';
+import { NotFoundError } from '../types/errors';
+import { logger } from '../utils/logger';
+
+/**
+ * Service for webhook subscriptions.
+ * 
+ * @class WebhookSubscriptionService
+ */
+export class WebhookSubscriptionService {
+  private readonly subscriptionRepository: WebhookSubscriptionRepository;
+
+  constructor() {
+    this.subscriptionRepository = new WebhookSubscriptionRepository();
+  }
+
+  /**
+   * Registers a subscription.
+   * 
+   * @param input - URL, event types and signing secret
+   * @returns Promise resolving to the subscription (without its secret)
+   */
+  public async createSubscription(input: CreateWebhookSubscriptionInput): Promise<WebhookSubscription> {
+    const id = uuidv4();
+    await this.subscriptionRepository.create(id, {
+      ...input,
+      eventTypes: [...new Set(input.eventTypes)],
+    });
+
+    logger.info('Webhook subscription created', { id, url: input.url, eventTypes: input.eventTypes });
+    return await this.getSubscription(id);
+  }
+
+  /**
+   * Retrieves a subscription.
+   * 
+   * @param id - Subscription ID
+   * @throws {NotFoundError} If the subscription doesn't exist
+   */
+  public async getSubscription(id: string): Promise<WebhookSubscription> {
+    const subscription = await this.subscriptionRepository.findById(id);
+    if (!subscription) {
+      throw new NotFoundError(`Subscription with ID ${id} not found`);
+    }
+    return subscription;
+  }
+
+  /**
+   * Lists every subscription, newest first.
+   */
+  public async listSubscriptions(): Promise<WebhookSubscription[]> {
+    return await this.subscriptionRepository.findAll();
+  }
+
+  /**
+   * Deletes a subscription. Its dead letters are kept but can no longer be replayed.
+   * 
+   * @param id - Subscription ID
+   * @throws {NotFoundError} If the subscription doesn't exist
+   */
+  public async deleteSubscription(id: string): Promise<void> {
+    const deleted = await this.subscriptionRepository.delete(id);
+    if (!deleted) {
+      throw new NotFoundError(`Subscription with ID ${id} not found`);
+    }
+
+    logger.info('Webhook subscription deleted', { id });
+  }
+}
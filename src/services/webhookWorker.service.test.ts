@@ -0,0 +1,71 @@
+import { WebhookWorkerService } from './webhookWorker.service';
+import { WebhookEventService } from './webhookEvent.service';
+import { WebhookEventRepository } from '../repositories/webhookEvent.repository';
+import { WebhookQueueRepository } from '../repositories/webhookQueue.repository';
+import { ConflictError } from '../types/errors';
+import { config } from '../config';
+
+jest.mock('./webhookEvent.service');
+jest.mock('../repositories/webhookEvent.repository');
+jest.mock('../repositories/webhookQueue.repository');
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+describe('WebhookWorkerService.drain', () => {
+  const queue = WebhookQueueRepository.prototype;
+  const job = { source: 'default', eventId: 'evt_1', requestId: 'req-1', attempt: 1 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (queue.dequeue as jest.Mock).mockResolvedValueOnce(job).mockResolvedValue(null);
+  });
+
+  it('dead-letters a job whose change conflicts with the current state without retrying', async () => {
+    (WebhookEventService.prototype.handleStored as jest.Mock).mockRejectedValue(
+      new ConflictError('Insufficient stock')
+    );
+
+    await expect(new WebhookWorkerService().drain()).resolves.toBe(1);
+
+    expect(queue.schedule).not.toHaveBeenCalled();
+    expect(queue.deadLetter).toHaveBeenCalledWith(
+      expect.objectContaining({ job, error: 'Insufficient stock' })
+    );
+    expect(WebhookEventRepository.prototype.markDead).toHaveBeenCalledWith('default', 'evt_1');
+  });
+
+  it('retries a job that failed for a transient reason', async () => {
+    (WebhookEventService.prototype.handleStored as jest.Mock).mockRejectedValue(
+      new Error('Connection lost')
+    );
+
+    await new WebhookWorkerService().drain();
+
+    expect(queue.schedule).toHaveBeenCalledWith({ ...job, attempt: 2 }, expect.any(Number));
+    expect(queue.deadLetter).not.toHaveBeenCalled();
+  });
+});
+
+describe('WebhookWorkerService.requeueStale', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('queues the next attempt of a failed event whose retry was lost', async () => {
+    (WebhookEventRepository.prototype.findStale as jest.Mock).mockResolvedValue([
+      { source: 'default', eventId: 'evt_1', status: 'failed', attempts: 2 },
+    ]);
+
+    await expect(new WebhookWorkerService().requeueStale()).resolves.toBe(1);
+
+    expect(WebhookEventRepository.prototype.findStale).toHaveBeenCalledWith(
+      config.webhookQueue.staleAfterSeconds,
+      config.webhookQueue.maxAttempts,
+      config.webhookQueue.batchSize
+    );
+    expect(WebhookQueueRepository.prototype.enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({ source: 'default', eventId: 'evt_1', attempt: 3 })
+    );
+  });
+});
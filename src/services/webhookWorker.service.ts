@@ -0,0 +1,166 @@
+/**
+ * Incoming Webhook Worker Service
+ * 
+ * Processes queued webhook events:
+ * - Retries with exponential backoff through the delayed queue
+ * - Dead-lettering of events that exhaust their attempts, fail validation or
+ *   conflict with the current state
+ * - Requeueing of stored events whose job was lost
+ * - Queue depth and recent failures for the admin API
+ * 
+ * @module services/webhookWorker.service
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookEventRepository } from '../repositories/webhookEvent.repository';
+import { WebhookQueueRepository } from '../repositories/webhookQueue.repository';
+import { WebhookEventService } from './webhookEvent.service';
+import { WebhookJob, WebhookQueueStatus } from '../types/webhook.types';
+import { BadRequestError, ConflictError, NotFoundError } from '../types/errors';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+/**
+ * Service running the webhook job queue.
+ * 
+ * @class WebhookWorkerService
+ * @description Safe to run on every instance at once: jobs are popped
+ * atomically and each event is claimed before its handler runs.
+ */
+export class WebhookWorkerService {
+  private readonly eventRepository: WebhookEventRepository;
+  private readonly queueRepository: WebhookQueueRepository;
+  private readonly eventService: WebhookEventService;
+
+  constructor() {
+    this.eventRepository = new WebhookEventRepository();
+    this.queueRepository = new WebhookQueueRepository();
+    this.eventService = new WebhookEventService();
+  }
+
+  /**
+   * Promotes due retries, then runs up to one batch of ready jobs.
+   * 
+   * @returns Promise resolving to the number of jobs run
+   */
+  public async drain(): Promise<number> {
+    const batchSize = config.webhookQueue.batchSize;
+    await this.queueRepository.promoteDue(batchSize);
+
+    let run = 0;
+    while (run < batchSize) {
+      const job = await this.queueRepository.dequeue();
+      if (!job) {
+        break;
+      }
+
+      await this.runJob(job);
+      run++;
+    }
+
+    return run;
+  }
+
+  /**
+   * Queues stored events again whose job was lost.
+   * 
+   * @returns Promise resolving to the number of events queued
+   * 
+   * @remarks
+   * Catches events stored while Redis was unavailable, jobs popped by a
+   * worker that then crashed, and a flushed queue - including the retry of
+   * a failed event with attempts left. An event that is in fact still
+   * queued only runs twice as a duplicate.
+   */
+  public async requeueStale(): Promise<number> {
+    const stale = await this.eventRepository.findStale(
+      config.webhookQueue.staleAfterSeconds,
+      config.webhookQueue.maxAttempts,
+      config.webhookQueue.batchSize
+    );
+
+    for (const event of stale) {
+      await this.queueRepository.enqueue({
+        source: event.source,
+        eventId: event.eventId,
+        requestId: uuidv4(),
+        attempt: event.attempts + 1,
+      });
+    }
+
+    if (stale.length > 0) {
+      logger.warn('Stale webhook events queued again', { count: stale.length });
+    }
+
+    return stale.length;
+  }
+
+  /**
+   * Reports queue depth and the most recent dead-lettered jobs.
+   * 
+   * @param failureLimit - Maximum dead letters returned
+   */
+  public async getQueueStatus(failureLimit: number): Promise<WebhookQueueStatus> {
+    const [depth, recentFailures] = await Promise.all([
+      this.queueRepository.getDepth(),
+      this.queueRepository.findDeadLetters(failureLimit),
+    ]);
+
+    return { ...depth, recentFailures };
+  }
+
+  /**
+   * Runs one job and schedules its retry or dead-letters it on failure.
+   * @private
+   */
+  private async runJob(job: WebhookJob): Promise<void> {
+    try {
+      const outcome = await this.eventService.handleStored(job.source, job.eventId, job.requestId);
+
+      if (outcome === 'in_progress') {
+        // Another worker holds the claim - check back after it should be done
+        await this.queueRepository.schedule(job, Date.now() + config.webhookQueue.retryDelay);
+      }
+    } catch (error) {
+      const message = (error as Error).message;
+
+      // Invalid data, deleted events and changes that conflict with the
+      // current state (e.g. stock going negative) cannot succeed on a retry
+      const retryable = !(
+        error instanceof BadRequestError ||
+        error instanceof NotFoundError ||
+        error instanceof ConflictError
+      );
+
+      if (retryable && job.attempt < config.webhookQueue.maxAttempts) {
+        const delay = config.webhookQueue.retryDelay * Math.pow(2, job.attempt - 1);
+        logger.warn(`Webhook job failed, retrying in ${delay}ms`, {
+          source: job.source,
+          eventId: job.eventId,
+          attempt: job.attempt,
+          maxAttempts: config.webhookQueue.maxAttempts,
+          error: message,
+        });
+
+        await this.queueRepository.schedule({ ...job, attempt: job.attempt + 1 }, Date.now() + delay);
+        return;
+      }
+
+      logger.error('Webhook job dead-lettered', {
+        source: job.source,
+        eventId: job.eventId,
+        attempt: job.attempt,
+        error: message,
+      });
+
+      await this.queueRepository.deadLetter({
+        job,
+        error: message,
+        failedAt: new Date().toISOString(),
+      });
+
+      // Keeps the stale sweep from running it again
+      await this.eventRepository.markDead(job.source, job.eventId);
+    }
+  }
+}
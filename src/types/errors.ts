@@ -96,6 +96,16 @@ export class ConflictError extends AppError {
   }
 }
 
+/**
+ * 412 Precondition Failed - A conditional request header cannot be satisfied.
+ * Use when If-Match carries a tag that can never match, such as a weak ETag.
+ */
+export class PreconditionFailedError extends AppError {
+  constructor(message: string = 'Precondition failed') {
+    super(message, 412);
+  }
+}
+
 /**
  * 429 Too Many Requests - Rate limit exceeded.
  * Use when client exceeds API rate limits.
@@ -0,0 +1,22 @@
+export type OutboxAggregateType = 'product';
+
+/** Event written in the same transaction as the change it describes */
+export interface OutboxEvent<T = Record<string, unknown>> {
+  id: number; // Relay order
+  eventId: string; // Stable across relay retries - receivers deduplicate on it
+  aggregateType: OutboxAggregateType;
+  aggregateId: string;
+  eventType: string;
+  payload: T;
+  attempts: number; // Failed relay attempts
+  lastError: string | null;
+  createdAt: Date;
+  dispatchedAt: Date | null;
+}
+
+export interface NewOutboxEvent<T = Record<string, unknown>> {
+  aggregateType: OutboxAggregateType;
+  aggregateId: string;
+  eventType: string;
+  payload: T;
+}
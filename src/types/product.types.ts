@@ -5,27 +5,119 @@ export interface Product {
   price: number;
   category: string;
   stock: number;
+  version: number; // Incremented on every update (optimistic locking)
   createdAt: Date;
   updatedAt: Date;
+  deletedAt: Date | null; // Set when soft-deleted
+  relevance?: number; // Full-text score, only present on search results
 }
 
+/** Product fields selectable through sparse fieldsets (`fields=`) */
+export type ProductField =
+  | 'id'
+  | 'name'
+  | 'description'
+  | 'price'
+  | 'category'
+  | 'stock'
+  | 'version'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'deletedAt';
+
+export type ProductSortField = 'name' | 'price' | 'createdAt' | 'updatedAt' | 'relevance';
+
+export type ProductFacetName = 'category' | 'price' | 'stock';
+
 export interface ProductListQuery {
   cursor?: string; // For cursor-based pagination
   limit?: number;
-  sortBy?: 'name' | 'price' | 'createdAt' | 'updatedAt';
+  sortBy?: ProductSortField;
   sortOrder?: 'asc' | 'desc';
-  category?: string;
+  category?: string[]; // Matches any of the given categories
   search?: string;
   minPrice?: number;
   maxPrice?: number;
+  inStock?: boolean;
+  minStock?: number;
+  maxStock?: number;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  updatedSince?: Date;
+  includeDeleted?: boolean; // Admin only: include soft-deleted products
+  includeTotal?: boolean; // Add total (exact or estimated) to pagination
+  facets?: ProductFacetName[]; // Bucketed counts to add to the response
+  fields?: ProductField[]; // Sparse fieldset; id is always returned
+}
+
+/**
+ * Decoded keyset pagination cursor.
+ * Identifies the last row of a page by its sort value plus id (tie-breaker).
+ */
+export interface ProductCursor {
+  sortBy: ProductSortField;
+  sortOrder: 'asc' | 'desc';
+  direction: 'next' | 'prev'; // Page after or before the boundary row
+  value: string | number; // Sort value (epoch millis for dates, score for relevance)
+  id: string;
+  fingerprint: string; // Hash of the filters the cursor was issued for
+}
+
+/**
+ * Bucketed counts over the filtered product set (sidebar facets).
+ */
+export interface ProductFacets {
+  category?: Array<{ value: string | null; count: number }>;
+  price?: Array<{ min: number; max: number | null; count: number }>; // max null = open-ended
+  stock?: Array<{ bucket: 'out_of_stock' | 'low_stock' | 'in_stock'; count: number }>;
+}
+
+/**
+ * One entry in a product's price history.
+ */
+export interface ProductPriceChange {
+  id: number;
+  productId: string;
+  price: number;
+  previousPrice: number | null; // null for the price set at creation
+  changedAt: Date;
+  requestId: string; // Correlates with the product_audit entry of the same write
 }
 
 export interface ProductListResponse {
   success: boolean;
-  data: Product[];
+  data: Array<Partial<Product>>; // Full products unless a sparse fieldset was requested
   pagination: {
     nextCursor: string | null;
+    prevCursor: string | null;
     hasMore: boolean;
     limit: number;
+    total?: number; // Only when includeTotal is requested
+    totalEstimated?: boolean; // True when total comes from index statistics
   };
+  facets?: ProductFacets; // Only when facets are requested
+}
+
+export interface CreateProductInput {
+  name: string;
+  description?: string;
+  price: number;
+  category?: string;
+  stock?: number;
+}
+
+export type UpdateProductInput = Partial<CreateProductInput>;
+
+/**
+ * Row accepted by bulk upsert - updates when id exists, inserts otherwise.
+ * Optional fields left undefined were not provided: an update keeps the
+ * current value and an insert uses the column default. null clears them.
+ */
+export interface UpsertProductInput {
+  id: string;
+  name: string;
+  description?: string | null;
+  price: number;
+  category?: string | null;
+  stock?: number;
 }
@@ -0,0 +1,54 @@
+import { Product } from './product.types';
+
+export type ProductAuditAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'restore'
+  | 'reserve' // Stock held by a reservation
+  | 'release' // Reserved stock returned (cancelled or expired)
+  | 'adjust'; // Stock corrected by an inventory.adjusted webhook
+
+/** Who made a change and in which request - recorded with every audit entry */
+export interface AuditContext {
+  actor: string;
+  requestId: string;
+}
+
+export interface ProductAuditEntry {
+  id: number;
+  productId: string;
+  action: ProductAuditAction;
+  before: Product | null; // null for create
+  after: Product | null;
+  actor: string;
+  requestId: string;
+  createdAt: Date;
+}
+
+export interface NewProductAuditEntry extends AuditContext {
+  productId: string;
+  action: ProductAuditAction;
+  before: Product | null;
+  after: Product | null;
+}
+
+export interface ProductHistoryQuery {
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ProductHistoryCursor {
+  productId: string;
+  id: number; // Last audit entry id seen (entries are returned newest first)
+}
+
+export interface ProductHistoryResponse {
+  success: boolean;
+  data: ProductAuditEntry[];
+  pagination: {
+    nextCursor: string | null;
+    hasMore: boolean;
+    limit: number;
+  };
+}
@@ -0,0 +1,22 @@
+export type ProductImportFormat = 'csv' | 'ndjson';
+
+export type ProductImportStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface ProductImportRowError {
+  row: number; // 1-based data row (CSV header and blank lines not counted)
+  errors: string[];
+}
+
+export interface ProductImportJob {
+  id: string;
+  format: ProductImportFormat;
+  status: ProductImportStatus;
+  totalRows: number;
+  acceptedRows: number;
+  rejectedRows: number;
+  errors: ProductImportRowError[]; // Capped at config.productImport.maxRowErrors
+  failureReason: string | null; // Set when the whole job failed (e.g. unparseable file)
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
@@ -0,0 +1,20 @@
+export type ProductReservationStatus =
+  | 'active' // Stock is held until expiresAt
+  | 'committed' // Checkout completed - the decrement is permanent
+  | 'released' // Cancelled by the client - stock returned
+  | 'expired'; // Not committed in time - stock returned
+
+export interface ProductReservation {
+  id: string;
+  productId: string;
+  quantity: number;
+  status: ProductReservationStatus;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateReservationInput {
+  quantity: number;
+  ttlSeconds?: number; // Defaults to config.reservations.defaultTtlSeconds
+}
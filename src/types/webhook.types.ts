@@ -0,0 +1,246 @@
+import { Product } from './product.types';
+import { AuditContext } from './productAudit.types';
+
+/**
+ * Envelope of an outgoing webhook event.
+ * `id` doubles as the idempotency key receivers deduplicate on.
+ */
+export interface WebhookEvent<T = Record<string, unknown>> {
+  id: string;
+  type: string;
+  createdAt: string; // ISO 8601
+  data: T;
+}
+
+export interface LowStockAlertData {
+  productId: string;
+  name: string;
+  category: string | null;
+  stock: number;
+  previousStock: number;
+  threshold: number; // Alert fired because stock dropped below this
+}
+
+/** Product events subscribers can register for */
+export type ProductEventType = 'product.created' | 'product.updated' | 'product.deleted';
+
+export interface ProductEventData {
+  product: Product; // State after the change (deleted products carry deletedAt)
+  previous: Product | null; // State before the change (null for product.created)
+}
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  eventTypes: ProductEventType[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Subscription including its signing secret (never returned by the API) */
+export interface WebhookSubscriptionRecord extends WebhookSubscription {
+  secret: string;
+}
+
+export interface CreateWebhookSubscriptionInput {
+  url: string;
+  eventTypes: ProductEventType[];
+  secret: string;
+}
+
+/** Delivery that failed every retry, kept for inspection and replay */
+export interface WebhookDeadLetter {
+  id: number;
+  subscriptionId: string;
+  eventId: string;
+  eventType: string;
+  payload: WebhookEvent;
+  attempts: number; // Delivery attempts made before it was dead-lettered
+  lastError: string | null;
+  createdAt: Date;
+  replayedAt: Date | null; // Set once the event was queued again for delivery
+}
+
+export interface WebhookDeadLetterQuery {
+  subscriptionId?: string;
+  includeReplayed?: boolean;
+  limit?: number;
+}
+
+/** HMAC algorithms a webhook source can sign with */
+export type WebhookHmacAlgorithm = 'sha1' | 'sha256' | 'sha512';
+
+/** How a webhook signature is verified */
+export interface WebhookSignatureScheme {
+  secrets: string[]; // Any may match - two while a secret is being rotated
+  algorithm: WebhookHmacAlgorithm;
+  encoding: 'hex' | 'base64';
+  format:
+    | 'timestamped' // t=<unix seconds>,v1=<HMAC of "<t>.<raw body>"> - replay protected
+    | 'plain'; // HMAC of the raw body, optionally prefixed "<algorithm>="
+}
+
+/** A partner sending webhooks to POST /api/v1/webhooks/:source/events */
+export interface WebhookSourceConfig extends WebhookSignatureScheme {
+  signatureHeader: string; // Lower-case header name
+}
+
+/** Envelope of an event received on POST /api/v1/webhooks/[:source/]events */
+export interface IncomingWebhookEvent {
+  source: string; // Configured source name ('default' for /events)
+  id: string; // Unique per source
+  type: string;
+  data?: unknown; // Checked by the handler registered for `type`
+}
+
+/** Result of validating an event's data against its handler's schema */
+export interface WebhookPayloadValidation<T> {
+  value?: T; // Set when errors is empty
+  errors: string[];
+}
+
+/**
+ * Handler for one incoming event type.
+ * Registered with WebhookEventService, which looks it up by `type`.
+ */
+export interface WebhookEventHandler<T = unknown> {
+  readonly type: string;
+  validate(data: unknown): WebhookPayloadValidation<T>;
+  handle(data: T, context: AuditContext): Promise<void>;
+}
+
+/** What processing an incoming event did */
+export type WebhookProcessOutcome =
+  | 'processed' // A handler ran successfully
+  | 'ignored'; // No handler for the type - acknowledged and logged
+
+export interface PriceChangedEventData {
+  productId: string;
+  price: number;
+}
+
+export interface InventoryAdjustedEventData {
+  productId: string;
+  delta: number; // Units added (positive) or removed (negative)
+}
+
+export interface CatalogSyncRequestedEventData {
+  productIds?: string[]; // Omitted = the whole catalogue
+}
+
+export type WebhookEventStatus =
+  | 'received' // Stored, not yet handled
+  | 'processing' // Handler running
+  | 'processed' // Handled (or acknowledged as an unknown type)
+  | 'failed' // Last attempt failed - retried by the queue until dead-lettered
+  | 'dead'; // Dead-lettered - queued again only by a sender retry or a replay
+
+/** Incoming event as stored in webhook_events */
+export interface WebhookEventRecord {
+  id: number;
+  source: string;
+  eventId: string;
+  eventType: string;
+  payload: IncomingWebhookEvent;
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError: string | null;
+  receivedAt: Date;
+  updatedAt: Date;
+  processedAt: Date | null;
+}
+
+/** What the receiver did with a verified event */
+export type WebhookAcceptOutcome =
+  | 'accepted' // Stored and queued (or already queued) for processing
+  | 'duplicate'; // Already processed - nothing done
+
+/** What processing a stored event did */
+export type WebhookHandleOutcome =
+  | WebhookProcessOutcome
+  | 'duplicate' // Already processed - nothing done
+  | 'in_progress'; // Another worker holds the claim - nothing done
+
+/** Queued reference to a stored event (the payload stays in webhook_events) */
+export interface WebhookJob {
+  source: string;
+  eventId: string;
+  requestId: string; // Request that received the event, for the audit trail
+  attempt: number; // 1 for the first run
+}
+
+/** Job that failed its last attempt, or failed validation */
+export interface WebhookQueueDeadLetter {
+  job: WebhookJob;
+  error: string;
+  failedAt: string; // ISO 8601
+}
+
+/** Where an outbound delivery goes */
+export type WebhookDeliveryTarget =
+  | { kind: 'subscription'; subscriptionId: string }
+  | { kind: 'low_stock' }; // config.lowStock alert receiver
+
+/** Outbound event to send to one target */
+export interface NewWebhookDelivery {
+  target: WebhookDeliveryTarget;
+  event: WebhookEvent<unknown>;
+}
+
+export type WebhookDeliveryStatus =
+  | 'pending' // Waiting for (or leased to) a worker
+  | 'delivered'
+  | 'dead'; // Given up on - failed its last attempt, or its target was removed
+
+/** Stored outbound delivery, as claimed by a worker */
+export interface WebhookDelivery extends NewWebhookDelivery {
+  id: number;
+  attempts: number; // Sends started, including the one just claimed
+}
+
+export interface WebhookQueueStatus {
+  ready: number; // Jobs waiting for a worker
+  delayed: number; // Jobs waiting for their retry backoff
+  dead: number; // Dead-lettered jobs kept (at most WEBHOOK_QUEUE_DEAD_LETTER_LIMIT)
+  recentFailures: WebhookQueueDeadLetter[]; // Newest first
+}
+
+/** Stored incoming event without its payload, as listed by the admin API */
+export type WebhookEventSummary = Omit<WebhookEventRecord, 'payload'>;
+
+/** Filters for searching stored incoming events */
+export interface WebhookEventFilters {
+  source?: string;
+  eventId?: string;
+  type?: string;
+  status?: WebhookEventStatus;
+  from?: Date; // received_at >= from
+  to?: Date; // received_at < to
+}
+
+export interface WebhookEventQuery extends WebhookEventFilters {
+  cursor?: string;
+  limit?: number;
+}
+
+export interface WebhookEventCursor {
+  id: number; // Last row id seen (events are returned newest first)
+}
+
+export interface WebhookEventListResponse {
+  success: boolean;
+  data: WebhookEventSummary[];
+  pagination: {
+    nextCursor: string | null;
+    hasMore: boolean;
+    limit: number;
+  };
+}
+
+/** Result of replaying a filtered range of events */
+export interface WebhookReplayResult {
+  queued: number; // Events reset and queued again
+  skipped: number; // Processed events left alone (replay without force)
+  nextAfterId: number | null; // Pass as afterId to continue; null when no more events match
+}
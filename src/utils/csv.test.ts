@@ -0,0 +1,71 @@
+import { parseCsv, toCsvRow } from './csv';
+
+describe('parseCsv', () => {
+  it('splits records on LF and CRLF line endings', () => {
+    expect(parseCsv('name,price\r\nChair,10\nDesk,20')).toEqual([
+      ['name', 'price'],
+      ['Chair', '10'],
+      ['Desk', '20'],
+    ]);
+  });
+
+  it('reads quoted fields with commas, escaped quotes and newlines', () => {
+    expect(parseCsv('"Desk, oak","The ""big"" one","line 1\r\nline 2"')).toEqual([
+      ['Desk, oak', 'The "big" one', 'line 1\r\nline 2'],
+    ]);
+  });
+
+  it('keeps empty fields, including a trailing one', () => {
+    expect(parseCsv('a,,c,\n,,,')).toEqual([
+      ['a', '', 'c', ''],
+      ['', '', '', ''],
+    ]);
+  });
+
+  it('skips blank lines and a leading BOM', () => {
+    expect(parseCsv('\ufeffname\n\nChair\r\n\r\n')).toEqual([['name'], ['Chair']]);
+  });
+
+  it('treats a quote inside an unquoted field as text', () => {
+    expect(parseCsv('5" screen,10')).toEqual([['5" screen', '10']]);
+  });
+
+  it('rejects an unterminated quoted field', () => {
+    expect(() => parseCsv('name\n"Chair')).toThrow('Unterminated quoted field in CSV');
+  });
+});
+
+describe('toCsvRow', () => {
+  it('quotes only fields that need it', () => {
+    expect(toCsvRow(['Chair', 'Desk, oak', 'The "big" one', 'a\nb', 10])).toBe(
+      'Chair,"Desk, oak","The ""big"" one","a\nb",10'
+    );
+  });
+
+  it('writes null and undefined as empty fields and dates as ISO 8601', () => {
+    expect(toCsvRow([null, undefined, new Date(Date.UTC(2026, 0, 2))])).toBe(
+      ',,2026-01-02T00:00:00.000Z'
+    );
+  });
+
+  it('round-trips through parseCsv', () => {
+    const values = ['Desk, oak', 'The "big" one', 'line 1\r\nline 2', ''];
+
+    expect(parseCsv(toCsvRow(values))).toEqual([values]);
+  });
+
+  it.each(['=HYPERLINK("http://x")', '+1+1', '-2+3', '@SUM(A1)', '\tcmd'])(
+    'makes the formula %j inert',
+    (value) => {
+      expect(toCsvRow([value]).replace(/^"|"$/g, '').startsWith("'")).toBe(true);
+    }
+  );
+
+  it('quotes an escaped formula that needs quoting', () => {
+    expect(toCsvRow(['=A1,"B1"'])).toBe(`"'=A1,""B1"""`);
+  });
+
+  it('writes negative numbers unchanged', () => {
+    expect(toCsvRow([-5, 'plain'])).toBe('-5,plain');
+  });
+});
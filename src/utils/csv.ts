@@ -0,0 +1,122 @@
+/**
+ * Minimal RFC 4180 CSV Helpers
+ * 
+ * Provides:
+ * - Parsing of quoted fields, escaped quotes and embedded newlines
+ * - Serialization of rows with quoting only where required, and text that
+ *   a spreadsheet would run as a formula made inert
+ * 
+ * @module utils/csv
+ */
+
+/** Characters that force a field to be quoted when serialized */
+const CSV_SPECIAL_CHARS = /[",\r\n]/;
+
+/** Leading characters that make a spreadsheet evaluate a cell as a formula */
+const FORMULA_TRIGGER_CHARS = /^[=+\-@\t\r]/;
+
+/**
+ * Parses CSV text into records.
+ * 
+ * @param text - CSV document (CRLF or LF line endings)
+ * @returns Array of records, each an array of raw field strings
+ * @throws {Error} If a quoted field is never closed
+ * 
+ * @example
+ * ```typescript
+ * parseCsv('name,price\n"Desk, oak",199');
+ * // [['name', 'price'], ['Desk, oak', '199']]
+ * ```
+ * 
+ * @remarks
+ * Blank lines are skipped. A leading UTF-8 BOM is ignored.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRecord = (): void => {
+    record.push(field);
+    // Skip blank lines (a single empty field)
+    if (record.length > 1 || record[0] !== '') {
+      records.push(record);
+    }
+    record = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRecord();
+    } else if (char === '\r') {
+      if (text[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field in CSV');
+  }
+
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+
+  return records;
+};
+
+/**
+ * Serializes one record as a CSV line (without line terminator).
+ * 
+ * @param values - Field values; null/undefined become empty fields
+ * @returns CSV line
+ * 
+ * @remarks
+ * Strings starting with =, +, -, @, tab or CR are prefixed with a single
+ * quote so spreadsheets show them as text instead of running them (CSV
+ * injection). Numbers are written as they are, so negatives stay numeric.
+ */
+export const toCsvRow = (values: unknown[]): string => {
+  return values
+    .map((value) => {
+      if (value === null || value === undefined) {
+        return '';
+      }
+
+      let text = value instanceof Date ? value.toISOString() : String(value);
+      if (typeof value === 'string' && FORMULA_TRIGGER_CHARS.test(text)) {
+        text = `'${text}`;
+      }
+
+      return CSV_SPECIAL_CHARS.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(',');
+};
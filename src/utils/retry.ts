@@ -0,0 +1,89 @@
+/**
+ * Retry With Exponential Backoff
+ * 
+ * Shared by every outbound HTTP caller (external API client, webhook
+ * delivery) so they classify failures the same way:
+ * - Client errors (4xx) are not retried - the request itself is wrong
+ * - An open circuit breaker is not retried
+ * - Anything else is retried after baseDelayMs * 2^attempt
+ * 
+ * @module utils/retry
+ */
+
+import axios from 'axios';
+import { ServiceUnavailableError } from '../types/errors';
+import { logger } from './logger';
+
+export interface RetryOptions {
+  /** Total attempts, including the first (at least 1) */
+  attempts: number;
+  /** Delay before the first retry in milliseconds (doubles each retry) */
+  baseDelayMs: number;
+  /** What is being retried, for log messages (e.g. 'External API call') */
+  label: string;
+}
+
+/**
+ * Resolves after a delay.
+ */
+const sleep = (ms: number): Promise<void> => {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+};
+
+/**
+ * Whether a failed call is worth repeating.
+ * 
+ * @param error - Error thrown by the call
+ * @returns false for 4xx responses and an open circuit breaker
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (axios.isAxiosError(error) && error.response?.status && error.response.status < 500) {
+    return false;
+  }
+
+  return !(error instanceof ServiceUnavailableError);
+};
+
+/**
+ * Runs a call, retrying retryable failures with exponential backoff.
+ * 
+ * @param fn - Call to run
+ * @param options - Attempts, backoff and log label
+ * @returns Promise resolving to the first successful result
+ * @throws The last error once attempts are exhausted, or the first non-retryable error
+ */
+export const executeWithRetry = async <T>(
+  fn: () => Promise<T>,
+  options: RetryOptions
+): Promise<T> => {
+  const attempts = Math.max(1, options.attempts);
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error as Error;
+
+      if (!isRetryableError(error)) {
+        throw error;
+      }
+
+      if (attempt === attempts - 1) {
+        break;
+      }
+
+      const delay = options.baseDelayMs * Math.pow(2, attempt);
+      logger.warn(`${options.label} failed, retrying in ${delay}ms`, {
+        attempt: attempt + 1,
+        maxAttempts: attempts,
+        error: (error as Error).message,
+      });
+
+      await sleep(delay);
+    }
+  }
+
+  logger.error(`${options.label} failed after all retries`, lastError);
+  throw lastError;
+};
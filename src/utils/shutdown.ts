@@ -2,6 +2,11 @@ import { Server } from 'http';
 import { logger } from './logger';
 import { closeDatabase } from '../infrastructure/database';
 import { closeRedis } from '../infrastructure/redis';
+import { stopProductPurgeJob } from '../jobs/productPurge.job';
+import { stopReservationExpiryJob } from '../jobs/reservationExpiry.job';
+import { stopOutboxRelayJob } from '../jobs/outboxRelay.job';
+import { stopWebhookWorkerJob } from '../jobs/webhookWorker.job';
+import { stopWebhookDeliveryJob } from '../jobs/webhookDelivery.job';
 
 /**
  * Graceful shutdown handler
@@ -10,6 +15,13 @@ import { closeRedis } from '../infrastructure/redis';
 export const gracefulShutdown = async (server: Server): Promise<void> => {
   logger.info('Received shutdown signal, starting graceful shutdown...');
 
+  // Stop background jobs before their connections go away
+  stopProductPurgeJob();
+  stopReservationExpiryJob();
+  stopOutboxRelayJob();
+  stopWebhookWorkerJob();
+  stopWebhookDeliveryJob();
+
   // Stop accepting new connections
   server.close(async () => {
     logger.info('HTTP server closed');
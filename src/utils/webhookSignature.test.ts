@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import { buildSignatureHeader, verifyWebhookSignature } from './webhookSignature';
+import { WebhookSignatureScheme } from '../types/webhook.types';
+
+describe('verifyWebhookSignature', () => {
+  const body = '{"id":"evt_1","type":"test.event","data":{}}';
+  const tolerance = 300;
+  const now = () => Math.floor(Date.now() / 1000);
+
+  const scheme = (secrets: string[]): WebhookSignatureScheme => ({
+    secrets,
+    algorithm: 'sha256',
+    encoding: 'hex',
+    format: 'timestamped',
+  });
+
+  it('accepts a header signed with the secret over the raw body', () => {
+    const header = buildSignatureHeader(body, 'current');
+
+    expect(verifyWebhookSignature(body, header, scheme(['current']), tolerance)).toBe('valid');
+  });
+
+  it('rejects a body changed after signing', () => {
+    const header = buildSignatureHeader(body, 'current');
+
+    expect(verifyWebhookSignature(`${body} `, header, scheme(['current']), tolerance)).toBe('invalid');
+  });
+
+  it('accepts a timestamp at the edge of the tolerance window', () => {
+    const header = buildSignatureHeader(body, 'current', now() - tolerance + 5);
+
+    expect(verifyWebhookSignature(body, header, scheme(['current']), tolerance)).toBe('valid');
+  });
+
+  it.each([
+    ['in the past', -1],
+    ['in the future', 1],
+  ])('reports a matching signature with a timestamp too far %s as stale', (_label, direction) => {
+    const header = buildSignatureHeader(body, 'current', now() + direction * (tolerance + 60));
+
+    expect(verifyWebhookSignature(body, header, scheme(['current']), tolerance)).toBe('stale');
+  });
+
+  it('rejects a replayed timestamp that does not match the signature', () => {
+    const header = buildSignatureHeader(body, 'current', now() - 3600).replace(/^t=\d+/, `t=${now()}`);
+
+    expect(verifyWebhookSignature(body, header, scheme(['current']), tolerance)).toBe('invalid');
+  });
+
+  describe('secret rotation', () => {
+    it('accepts a signature made with the previous secret', () => {
+      const header = buildSignatureHeader(body, 'previous');
+
+      expect(verifyWebhookSignature(body, header, scheme(['current', 'previous']), tolerance)).toBe(
+        'valid'
+      );
+    });
+
+    it('accepts a header carrying signatures for both secrets', () => {
+      const timestamp = now();
+      const signedWithNew = buildSignatureHeader(body, 'current', timestamp);
+      const signedWithOld = buildSignatureHeader(body, 'previous', timestamp).split(',')[1];
+
+      expect(
+        verifyWebhookSignature(body, `${signedWithNew},${signedWithOld}`, scheme(['previous']), tolerance)
+      ).toBe('valid');
+    });
+
+    it('ignores an empty previous secret', () => {
+      const header = buildSignatureHeader(body, '');
+
+      expect(verifyWebhookSignature(body, header, scheme(['current', '']), tolerance)).toBe('invalid');
+    });
+
+    it('rejects a signature made with a retired secret', () => {
+      const header = buildSignatureHeader(body, 'retired');
+
+      expect(verifyWebhookSignature(body, header, scheme(['current', 'previous']), tolerance)).toBe(
+        'invalid'
+      );
+    });
+  });
+
+  it.each([
+    ['a truncated signature', (signature: string) => signature.slice(0, -2)],
+    ['an extended signature', (signature: string) => `${signature}00`],
+  ])('rejects %s without throwing on the length mismatch', (_label, mangle) => {
+    const [timestamp, signature] = buildSignatureHeader(body, 'current').split(',');
+    const header = `${timestamp},v1=${mangle(signature.slice(3))}`;
+
+    expect(() => verifyWebhookSignature(body, header, scheme(['current']), tolerance)).not.toThrow();
+    expect(verifyWebhookSignature(body, header, scheme(['current']), tolerance)).toBe('invalid');
+  });
+
+  it.each([undefined, '', 'garbage', 'v1=abc', 't=abc,v1=abc'])(
+    'rejects the malformed header %j',
+    (header) => {
+      expect(verifyWebhookSignature(body, header, scheme(['current']), tolerance)).toBe('invalid');
+    }
+  );
+
+  it('verifies a plain base64 signature with an algorithm prefix', () => {
+    const plain: WebhookSignatureScheme = { ...scheme(['current']), encoding: 'base64', format: 'plain' };
+    const signature = crypto.createHmac('sha256', 'current').update(body).digest('base64');
+
+    expect(verifyWebhookSignature(body, `sha256=${signature}`, plain, tolerance)).toBe('valid');
+    expect(verifyWebhookSignature(body, signature.slice(1), plain, tolerance)).toBe('invalid');
+  });
+});
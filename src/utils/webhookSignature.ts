@@ -0,0 +1,179 @@
+/**
+ * Webhook Signatures
+ *
+ * Timestamped HMAC-SHA256 signatures over the exact request body - the
+ * scheme incoming webhooks are verified with and outgoing webhooks are
+ * signed with:
+ *
+ *   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * Signing the timestamp lets receivers reject replayed requests. Incoming
+ * sources may configure another algorithm, encoding or a plain
+ * (untimestamped) header.
+ *
+ * @module utils/webhookSignature
+ */
+
+import crypto from 'crypto';
+import { WebhookHmacAlgorithm, WebhookSignatureScheme } from '../types/webhook.types';
+
+/** Header carrying the signature */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+/** Header carrying the event id receivers deduplicate on */
+export const WEBHOOK_IDEMPOTENCY_HEADER = 'X-Idempotency-Key';
+
+/** Header carrying the event type of outgoing webhooks */
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+
+/** Signature scheme version carried in the header */
+const SIGNATURE_VERSION = 'v1';
+
+/** Outcome of verifying a signature header */
+export type WebhookSignatureCheck =
+  | 'valid'
+  | 'invalid' // Missing, malformed or not matching
+  | 'stale'; // Matches, but the timestamp is outside the tolerance
+
+/**
+ * Computes the signature of a webhook body (outgoing scheme).
+ *
+ * @param payload - Body exactly as sent on the wire
+ * @param secret - Shared secret
+ * @param timestamp - Unix seconds the signature is bound to
+ * @returns Hex-encoded HMAC-SHA256 of `<timestamp>.<payload>`
+ */
+export const signWebhookPayload = (
+  payload: string | Buffer,
+  secret: string,
+  timestamp: number
+): string => {
+  return computeHmac(payload, secret, 'sha256', 'hex', timestamp);
+};
+
+/**
+ * Builds the signature header value for a webhook body.
+ *
+ * @param payload - Body exactly as sent on the wire
+ * @param secret - Shared secret
+ * @param timestamp - Unix seconds (defaults to now)
+ * @returns Header value `t=<timestamp>,v1=<signature>`
+ */
+export const buildSignatureHeader = (
+  payload: string | Buffer,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string => {
+  return `t=${timestamp},${SIGNATURE_VERSION}=${signWebhookPayload(payload, secret, timestamp)}`;
+};
+
+/**
+ * Verifies a signature header against the raw body.
+ *
+ * @param payload - Raw request body (before JSON parsing)
+ * @param header - Signature header value
+ * @param scheme - Secrets, algorithm, encoding and header format of the sender
+ * @param toleranceSeconds - Maximum distance between the signed timestamp and
+ * now (timestamped format only)
+ * @returns 'valid', 'invalid' or 'stale'
+ *
+ * @remarks
+ * A signature matching any of the scheme's secrets is accepted, and a
+ * timestamped header may carry several v1 entries, so either side can
+ * rotate secrets without dropping events.
+ */
+export const verifyWebhookSignature = (
+  payload: string | Buffer,
+  header: string | undefined,
+  scheme: WebhookSignatureScheme,
+  toleranceSeconds: number
+): WebhookSignatureCheck => {
+  const secrets = scheme.secrets.filter((secret) => secret.length > 0);
+  if (!header || secrets.length === 0) {
+    return 'invalid';
+  }
+
+  if (scheme.format === 'plain') {
+    // Some senders prefix the algorithm, e.g. "sha256=<hex>"
+    const prefix = `${scheme.algorithm}=`;
+    const signature = header.startsWith(prefix) ? header.slice(prefix.length) : header;
+
+    const matches = secrets.some((secret) =>
+      safeEqual(signature.trim(), computeHmac(payload, secret, scheme.algorithm, scheme.encoding))
+    );
+    return matches ? 'valid' : 'invalid';
+  }
+
+  const parsed = parseSignatureHeader(header);
+  if (!parsed) {
+    return 'invalid';
+  }
+
+  const matches = secrets.some((secret) => {
+    const expected = computeHmac(payload, secret, scheme.algorithm, scheme.encoding, parsed.timestamp);
+    return parsed.signatures.some((signature) => safeEqual(signature, expected));
+  });
+  if (!matches) {
+    return 'invalid';
+  }
+
+  const age = Math.abs(Math.floor(Date.now() / 1000) - parsed.timestamp);
+  return age > toleranceSeconds ? 'stale' : 'valid';
+};
+
+/**
+ * HMACs a body, bound to a timestamp when one is given.
+ */
+const computeHmac = (
+  payload: string | Buffer,
+  secret: string,
+  algorithm: WebhookHmacAlgorithm,
+  encoding: WebhookSignatureScheme['encoding'],
+  timestamp?: number
+): string => {
+  const hmac = crypto.createHmac(algorithm, secret);
+  if (timestamp !== undefined) {
+    hmac.update(`${timestamp}.`);
+  }
+  return hmac.update(payload).digest(encoding);
+};
+
+/**
+ * Splits a `t=...,v1=...` header into its timestamp and signatures.
+ * @returns null if the header has no valid timestamp or no v1 signature
+ */
+const parseSignatureHeader = (
+  header: string
+): { timestamp: number; signatures: string[] } | null => {
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const separator = part.indexOf('=');
+    const key = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+
+    if (separator <= 0 || value.length === 0) {
+      continue;
+    }
+
+    if (key === 't' && /^\d+$/.test(value)) {
+      timestamp = Number(value);
+    } else if (key === SIGNATURE_VERSION) {
+      signatures.push(value);
+    }
+  }
+
+  return timestamp !== null && signatures.length > 0 ? { timestamp, signatures } : null;
+};
+
+/**
+ * Constant-time string comparison that is safe for different lengths.
+ */
+const safeEqual = (actual: string, expected: string): boolean => {
+  const a = Buffer.from(actual);
+  const b = Buffer.from(expected);
+
+  // timingSafeEqual throws on length mismatch
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};